@@ -16,25 +16,92 @@ interface SentimentResult {
   themes: string[];
   quoteWorthy: boolean;
   quote?: string;
+  originalQuote?: string;     // the quote as written, when `quote` is an English translation
+  quoteMentions?: MentionSpan[];
   score?: number;
+  scoreHistory?: Array<[number, number]>;  // [capturedAt, score] from scrape --refresh
+  controversiality?: number;  // Reddit's controversial flag (1 = controversial)
+  isSubmitter?: boolean;      // comment by the thread's author (OP)
+  hygiene?: Array<'bot' | 'mod_template' | 'referral' | 'near_duplicate'>;  // from npm run hygiene
+  language?: string;          // ISO 639-1 code, or "und" when too short to tell
   model?: string;
   analyzedAt: number;
 }
 
+// Tool mention in a quote, as found by src/mentions.ts at publish time
+interface MentionSpan {
+  tool: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Tools of the published study, from study.json (written by analyze --publish)
+interface PublishedTool {
+  id: string;
+  name: string;
+}
+
+// Mention highlight per tool, in the study's tool order (first tool blue, second green)
+const MENTION_STYLES = ['bg-blue-100 text-blue-800', 'bg-green-100 text-green-800'];
+
+/**
+ * Highlight class per tool id
+ */
+function mentionStyles(tools: PublishedTool[]): Record<string, string> {
+  return Object.fromEntries(tools.map((tool, i) => [tool.id, MENTION_STYLES[i]]));
+}
+
+/**
+ * Render text with its tool mentions highlighted
+ */
+function highlightMentions(text: string, spans: MentionSpan[] = [], styles: Record<string, string> = {}) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+
+  for (const span of spans) {
+    if (span.start < last || span.end > text.length) continue;
+    parts.push(text.slice(last, span.start));
+    parts.push(
+      <mark key={span.start} className={`${styles[span.tool] || 'bg-yellow-100'} not-italic rounded px-0.5`}>
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    last = span.end;
+  }
+
+  parts.push(text.slice(last));
+  return parts;
+}
+
+const LANGUAGE_NAMES = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * Display name of a language code from src/language.ts ("pt" -> "Portuguese")
+ */
+function languageLabel(language: string) {
+  return language === 'und' ? 'Undetermined' : LANGUAGE_NAMES.of(language) || language;
+}
+
 export default function Dashboard() {
   const [data, setData] = useState<SentimentResult[]>([]);
+  const [tools, setTools] = useState<PublishedTool[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<string>('all');
   const [modelFilter, setModelFilter] = useState<string>('all');
   const [subredditFilter, setSubredditFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'time' | 'upvotes'>('upvotes');
   const [quoteWorthyFilter, setQuoteWorthyFilter] = useState<boolean>(true);
+  const [controversialFilter, setControversialFilter] = useState<boolean>(false);
+  const [submitterFilter, setSubmitterFilter] = useState<boolean>(false);
+  const [showFlagged, setShowFlagged] = useState<boolean>(false);
   const [ignoredComments, setIgnoredComments] = useState<Set<string>>(new Set());
   const [ignoredThreads, setIgnoredThreads] = useState<Set<string>>(new Set());
   const [showIgnored, setShowIgnored] = useState<boolean>(false);
   const [adminMode, setAdminMode] = useState<boolean>(false);
   const [weightByUpvotes, setWeightByUpvotes] = useState<boolean>(false);
   const [themeFilter, setThemeFilter] = useState<string>('all');
+  const [languageFilter, setLanguageFilter] = useState<string>('all');
 
   // Check if running locally (admin mode)
   useEffect(() => {
@@ -59,6 +126,20 @@ export default function Dashboard() {
       });
   }, []);
 
+  // Tool ids in study order, for the mention colors (missing in data published before it)
+  useEffect(() => {
+    fetch('/study.json')
+      .then(res => res.json())
+      .then(study => {
+        if (Array.isArray(study.tools)) {
+          setTools(study.tools);
+        }
+      })
+      .catch(err => {
+        console.warn('Could not load study.json:', err);
+      });
+  }, []);
+
   useEffect(() => {
     fetch('/sentiment_analysis.jsonl')
       .then(res => res.text())
@@ -124,10 +205,27 @@ export default function Dashboard() {
     );
   }
 
-  // Filter out ignored comments and threads (unless showing ignored)
-  const activeData = showIgnored
+  // Filter out ignored comments and threads (unless showing ignored), and
+  // comments flagged as bots/templates/spam/duplicates (unless showing flagged)
+  const activeData = (showIgnored
     ? data
-    : data.filter(d => !ignoredComments.has(d.commentId) && !ignoredThreads.has(d.postId));
+    : data.filter(d => !ignoredComments.has(d.commentId) && !ignoredThreads.has(d.postId))
+  ).filter(d => showFlagged || !d.hygiene?.length);
+  const flaggedCount = data.filter(d => d.hygiene?.length).length;
+  const toolStyles = mentionStyles(tools);
+
+  // Language aggregation (comments analyzed before detection count as undetermined)
+  const languageCount: Record<string, number> = {};
+  activeData.forEach(d => {
+    const language = d.language || 'und';
+    languageCount[language] = (languageCount[language] || 0) + 1;
+  });
+  const languages = Object.entries(languageCount)
+    .sort((a, b) => b[1] - a[1]);
+
+  const languageFilteredData = languageFilter === 'all'
+    ? activeData
+    : activeData.filter(d => (d.language || 'und') === languageFilter);
 
   // Subreddit aggregation (from active data only)
   const subredditCount: Record<string, number> = {};
@@ -140,8 +238,8 @@ export default function Dashboard() {
 
   // Filter by subreddit first
   const subredditFilteredData = subredditFilter === 'all'
-    ? activeData
-    : activeData.filter(d => d.subreddit === subredditFilter);
+    ? languageFilteredData
+    : languageFilteredData.filter(d => d.subreddit === subredditFilter);
 
   // Apply theme filter to subreddit-filtered data (for stats)
   const themeFilteredData = themeFilter === 'all'
@@ -243,6 +341,10 @@ export default function Dashboard() {
     // Quote-worthy filter
     if (quoteWorthyFilter && !d.quoteWorthy) return false;
 
+    // Comment metadata filters
+    if (controversialFilter && !d.controversiality) return false;
+    if (submitterFilter && !d.isSubmitter) return false;
+
     return true;
   });
 
@@ -687,6 +789,30 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* Language Filter */}
+        {languages.length > 1 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium mb-2">Language:</h3>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setLanguageFilter('all')}
+                className={`px-3 py-1 text-sm rounded ${languageFilter === 'all' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700'}`}
+              >
+                All Languages
+              </button>
+              {languages.map(([language, count]) => (
+                <button
+                  key={language}
+                  onClick={() => setLanguageFilter(language)}
+                  className={`px-3 py-1 text-sm rounded ${languageFilter === language ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700'}`}
+                >
+                  {languageLabel(language)} <span className="opacity-70">({count})</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Sort Controls */}
         <div className="mb-6">
           <h3 className="text-sm font-medium mb-2">Sort by:</h3>
@@ -721,6 +847,33 @@ export default function Dashboard() {
           <p className="text-xs text-gray-500 mt-1 ml-6">
             {quoteWorthyFilter ? `Showing ${filteredData.length} quote-worthy comments` : `Showing all ${filteredData.length} comments (including brief/unclear)`}
           </p>
+          <label className="flex items-center gap-2 cursor-pointer mt-2">
+            <input
+              type="checkbox"
+              checked={controversialFilter}
+              onChange={(e) => setControversialFilter(e.target.checked)}
+              className="w-4 h-4 text-purple-600 rounded"
+            />
+            <span className="text-sm">Only show controversial comments (as flagged by Reddit)</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer mt-2">
+            <input
+              type="checkbox"
+              checked={submitterFilter}
+              onChange={(e) => setSubmitterFilter(e.target.checked)}
+              className="w-4 h-4 text-purple-600 rounded"
+            />
+            <span className="text-sm">Only show comments by the thread&apos;s author (OP)</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer mt-2">
+            <input
+              type="checkbox"
+              checked={showFlagged}
+              onChange={(e) => setShowFlagged(e.target.checked)}
+              className="w-4 h-4 text-purple-600 rounded"
+            />
+            <span className="text-sm">Include bot, moderator template, spam and duplicate comments ({flaggedCount})</span>
+          </label>
         </div>
 
         {/* Active Theme Filter Indicator */}
@@ -896,9 +1049,22 @@ export default function Dashboard() {
               </div>
 
               {result.quote && (
-                <blockquote className="border-l-4 border-purple-500 pl-4 py-2 mb-3 italic text-gray-700">
-                  &quot;{result.quote}&quot;
-                </blockquote>
+                result.originalQuote ? (
+                  <div className="grid md:grid-cols-2 gap-3 mb-3">
+                    <blockquote className="border-l-4 border-gray-300 pl-4 py-2 italic text-gray-700">
+                      <div className="text-xs not-italic text-gray-400 mb-1">Original ({languageLabel(result.language || 'und')})</div>
+                      &quot;{result.originalQuote}&quot;
+                    </blockquote>
+                    <blockquote className="border-l-4 border-purple-500 pl-4 py-2 italic text-gray-700">
+                      <div className="text-xs not-italic text-gray-400 mb-1">Translation</div>
+                      &quot;{highlightMentions(result.quote, result.quoteMentions, toolStyles)}&quot;
+                    </blockquote>
+                  </div>
+                ) : (
+                  <blockquote className="border-l-4 border-purple-500 pl-4 py-2 mb-3 italic text-gray-700">
+                    &quot;{highlightMentions(result.quote, result.quoteMentions, toolStyles)}&quot;
+                  </blockquote>
+                )
               )}
 
               <p className="text-gray-700 mb-3">{result.reasoning}</p>
@@ -916,11 +1082,31 @@ export default function Dashboard() {
               <div className="flex gap-4 items-center text-xs text-gray-500">
                 <span>Claude Code: {result.claudeCodeSentiment}</span>
                 <span>Codex: {result.codexSentiment}</span>
+                {result.isSubmitter && (
+                  <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded">OP</span>
+                )}
+                {result.controversiality ? (
+                  <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded" title="Marked controversial by Reddit">controversial</span>
+                ) : null}
+                {result.hygiene?.map(flag => (
+                  <span key={flag} className="px-2 py-0.5 bg-gray-200 text-gray-700 rounded" title="Flagged by the hygiene check">
+                    {flag.replace('_', ' ')}
+                  </span>
+                ))}
                 {result.score !== undefined && (
                   <span className="text-lg font-bold text-orange-600 px-2 py-1 bg-orange-50 rounded">
                     ↑ {result.score}
                   </span>
                 )}
+                {result.scoreHistory && result.scoreHistory.length > 1 && (
+                  <span
+                    className="text-gray-500"
+                    title={result.scoreHistory.map(([t, s]) => `${new Date(t).toLocaleDateString()}: ${s}`).join('\n')}
+                  >
+                    {result.scoreHistory[result.scoreHistory.length - 1][1] - result.scoreHistory[0][1] >= 0 ? '+' : ''}
+                    {result.scoreHistory[result.scoreHistory.length - 1][1] - result.scoreHistory[0][1]} since {new Date(result.scoreHistory[0][0]).toLocaleDateString()}
+                  </span>
+                )}
                 {result.model && (
                   <span className="ml-auto text-gray-400">
                     {result.model.replace('claude-3-5-', '').replace('-20241022', '')}
@@ -0,0 +1,108 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { Study, sentimentField, comparisonCategories } from './study';
+import { Sentiment } from './types';
+
+/**
+ * The analyzer's structured output: a tool whose JSON schema the model fills
+ * in (instead of free-form JSON in text), and a runtime check of the result
+ * against the same enums, since the API doesn't enforce the schema.
+ */
+
+export const ANALYSIS_TOOL = 'record_analysis';
+
+export const SENTIMENTS: Sentiment[] = ['positive', 'negative', 'neutral', 'n/a'];
+
+// What the model returns for one comment, before it becomes a SentimentResult
+export interface ModelAnalysis {
+  comparison: string;
+  [toolSentiment: `${string}Sentiment`]: Sentiment;
+  reasoning: string;
+  themes: string[];
+  quoteWorthy: boolean;
+  quote?: string;
+  originalQuote?: string;   // only asked for when the quote is translated
+}
+
+/**
+ * Tool definition for a study; `translate` adds the originalQuote field
+ */
+export function analysisTool(study: Study, translate: boolean): Anthropic.Tool {
+  const [a, b] = study.tools;
+
+  const properties: Record<string, unknown> = {
+    comparison: {
+      type: 'string',
+      enum: comparisonCategories(study),
+      description: `How the comment compares ${a.name} and ${b.name}`,
+    },
+    [sentimentField(a)]: { type: 'string', enum: SENTIMENTS, description: `Sentiment toward ${a.name} (n/a if not discussed)` },
+    [sentimentField(b)]: { type: 'string', enum: SENTIMENTS, description: `Sentiment toward ${b.name} (n/a if not discussed)` },
+    reasoning: { type: 'string', description: 'Brief explanation (1-2 sentences)' },
+    themes: { type: 'array', items: { type: 'string' }, description: 'Specific aspects discussed, e.g. "speed", "pricing", "bugs"' },
+    quoteWorthy: { type: 'boolean', description: 'Whether this is a substantive, quotable comparison' },
+    quote: { type: 'string', description: 'The most relevant 1-2 sentence quote, when quote-worthy' },
+  };
+  if (translate) {
+    properties.originalQuote = { type: 'string', description: 'The same quote exactly as written, in the original language' };
+  }
+
+  return {
+    name: ANALYSIS_TOOL,
+    description: `Record the analysis of the last comment in the thread`,
+    input_schema: {
+      type: 'object',
+      properties,
+      required: ['comparison', sentimentField(a), sentimentField(b), 'reasoning', 'themes', 'quoteWorthy'],
+    },
+  };
+}
+
+/**
+ * Problems with the model's tool input, as messages it can act on; empty if valid
+ */
+export function validateAnalysis(input: unknown, study: Study, translate: boolean): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['the input must be an object'];
+  }
+
+  const analysis = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const categories = comparisonCategories(study);
+
+  if (!categories.includes(analysis.comparison as string)) {
+    errors.push(`"comparison" must be one of ${categories.join(', ')} (got ${JSON.stringify(analysis.comparison)})`);
+  }
+
+  for (const tool of study.tools) {
+    const field = sentimentField(tool);
+    if (!SENTIMENTS.includes(analysis[field] as Sentiment)) {
+      errors.push(`"${field}" must be one of ${SENTIMENTS.join(', ')} (got ${JSON.stringify(analysis[field])})`);
+    }
+  }
+
+  if (typeof analysis.reasoning !== 'string' || !analysis.reasoning.trim()) {
+    errors.push('"reasoning" must be a non-empty string');
+  }
+
+  if (!Array.isArray(analysis.themes) || analysis.themes.some(theme => typeof theme !== 'string')) {
+    errors.push(`"themes" must be an array of strings (got ${JSON.stringify(analysis.themes)})`);
+  }
+
+  if (typeof analysis.quoteWorthy !== 'boolean') {
+    errors.push(`"quoteWorthy" must be true or false (got ${JSON.stringify(analysis.quoteWorthy)})`);
+  }
+
+  if (analysis.quote !== undefined && typeof analysis.quote !== 'string') {
+    errors.push('"quote" must be a string');
+  } else if (analysis.quoteWorthy === true && !(analysis.quote as string | undefined)?.trim()) {
+    errors.push('"quote" is required when "quoteWorthy" is true');
+  }
+
+  if (analysis.originalQuote !== undefined && typeof analysis.originalQuote !== 'string') {
+    errors.push('"originalQuote" must be a string');
+  } else if (translate && (analysis.quote as string | undefined)?.trim() && !(analysis.originalQuote as string | undefined)?.trim()) {
+    errors.push('"originalQuote" is required with a translated "quote"');
+  }
+
+  return errors;
+}
@@ -1,47 +1,59 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { readFileSync, writeFileSync, existsSync, mkdirSync, copyFileSync } from 'fs';
+import { writeFileSync } from 'fs';
 import { config } from 'dotenv';
+import { loadStudy, studyFile, sentimentField } from './study';
+import { mentionsBothTools, findMentions } from './mentions';
+import { hasFlag, getFlag } from './args';
+import { loadScoreHistory } from './snapshots';
+import { openStorage } from './storage';
+import { redactText, isDoNotQuote } from './privacy';
+import { isEnglish, languageName } from './language';
+import { startStage } from './lineage';
+import { runPool } from './pool';
+import { ANALYSIS_TOOL, ModelAnalysis, analysisTool, validateAnalysis } from './analysis-schema';
+import { AnalysisReject, loadRejects, recordReject, clearReject, rejectsFile } from './rejects';
+import { RedditComment, RedditPost, RunLog, Sentiment, SentimentResult } from './types';
 
 config();
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
+  maxRetries: 0, // retried by createMessage(), which pauses every worker on rate limits
 });
 
-const INPUT_FILE = 'reddit_data_clean.jsonl';
-const OUTPUT_FILE = 'sentiment_analysis.jsonl';
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
 const DASHBOARD_OUTPUT_FILE = 'dashboard/public/sentiment_analysis.jsonl';
-const LOGS_DIR = 'logs';
-const RUN_LOG_FILE = 'logs/runs.jsonl';
+// The published study's tools in order, so the dashboard keys mention colors by tool id
+const DASHBOARD_STUDY_FILE = 'dashboard/public/study.json';
 const BATCH_SIZE = 500; // Analyze 50 comments at a time for v1 pilot
 
+// Comment scores over time from scrape --refresh (commentId -> [capturedAt, score][])
+const SNAPSHOTS_FILE = studyFile(STUDY, 'score_snapshots.jsonl');
+const SCORE_HISTORY = loadScoreHistory(STUDY);
+
+// Answers per comment: the first one plus repairs after validation errors
+const MAX_ATTEMPTS = 3;
+
+// Comments analyzed at once (--concurrency); all requests share one rate limit
+const CONCURRENCY = Math.max(1, parseInt(getFlag('concurrency') || process.env.ANALYZE_CONCURRENCY || '4', 10) || 1);
+
+// Rate-limited (429), overloaded (529) and other transient errors are retried,
+// after retry-after when the API sends it, else with backoff: 2s, 4s, 8s, ...
+const MAX_REQUEST_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 2000;
+
+// No worker sends a request before this time (set by 429 / 529 responses)
+let pausedUntil = 0;
+
 // Model to use - change this to test different models
 const MODEL = process.env.ANALYSIS_MODEL || 'claude-3-5-haiku-20241022';
 // Options: 'claude-3-5-haiku-20241022', 'claude-3-5-sonnet-20241022'
 
-interface RedditComment {
-  id: string;
-  parentId: string | null;
-  postId: string;
-  depth: number;
-  text: string;
-  score: number;
-  author: string;
-  created: number;
-}
-
-interface RedditPost {
-  postId: string;
-  subreddit: string;
-  title: string;
-  selftext: string;
-  score: number;
-  url: string;
-  permalink: string;
-  author: string;
-  created: number;
-  numComments: number;
-  comments: RedditComment[];
+// Tokens billed for a comment, over every attempt
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
 interface ThreadContext {
@@ -51,27 +63,8 @@ interface ThreadContext {
   fullText: string;
 }
 
-interface SentimentResult {
-  commentId: string;
-  postId: string;
-  subreddit: string;
-  permalink: string;
-  comparison: 'codex_better' | 'claude_code_better' | 'equal' | 'neither' | 'off_topic'
-    | 'claude_code_only_positive' | 'claude_code_only_negative'
-    | 'codex_only_positive' | 'codex_only_negative';
-  claudeCodeSentiment: 'positive' | 'negative' | 'neutral' | 'n/a';
-  codexSentiment: 'positive' | 'negative' | 'neutral' | 'n/a';
-  reasoning: string;
-  themes: string[];
-  quoteWorthy: boolean;
-  quote?: string;
-  score: number;
-  model: string;
-  analyzedAt: number;
-}
-
 /**
- * Build thread context for a comment
+ * Build thread context for a comment (redacted, see privacy.ts)
  */
 function getThreadContext(
   comment: RedditComment,
@@ -90,9 +83,9 @@ function getThreadContext(
   }
 
   const fullText = [
-    `POST TITLE: ${post.title}`,
-    post.selftext ? `POST BODY: ${post.selftext}` : '',
-    ...chain.map((c, i) => `COMMENT ${i + 1} (depth ${c.depth}, score ${c.score}): ${c.text}`)
+    `POST TITLE: ${redactText(post.title)}`,
+    post.selftext ? `POST BODY: ${redactText(post.selftext)}` : '',
+    ...chain.map((c, i) => `COMMENT ${i + 1} (depth ${c.depth}, score ${c.score}): ${c.deleted ? '[deleted comment]' : redactText(c.text)}`)
   ].filter(Boolean).join('\n\n');
 
   return {
@@ -104,165 +97,309 @@ function getThreadContext(
 }
 
 /**
- * Check if thread context mentions both tools
+ * How long the API asked us to wait (retry-after-ms / retry-after), if it did
+ */
+function retryAfterMs(error: any): number | null {
+  const headers: Headers | undefined = error?.headers;
+
+  const ms = parseFloat(headers?.get('retry-after-ms') ?? '');
+  if (!Number.isNaN(ms)) {
+    return ms;
+  }
+
+  const value = headers?.get('retry-after');
+  if (!value) {
+    return null;
+  }
+  const seconds = parseFloat(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * messages.create() with retries. A 429 or 529 pauses every worker, not just
+ * the one that got it, since the limit belongs to the account.
  */
-function mentionsBothTools(text: string): boolean {
-  const lower = text.toLowerCase();
-  const hasClaude = lower.includes('claude code') || lower.includes('claude-code');
-  const hasCodex = lower.includes('codex');
-  return hasClaude && hasCodex;
+async function createMessage(params: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message> {
+  for (let attempt = 1; ; attempt++) {
+    const wait = pausedUntil - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+
+    try {
+      return await anthropic.messages.create(params);
+    } catch (error: any) {
+      const status: number | undefined = error instanceof Anthropic.APIError ? error.status : undefined;
+      const transient = status === 408 || status === 429 || (status !== undefined && status >= 500) ||
+        error instanceof Anthropic.APIConnectionError;
+      if (!transient || attempt >= MAX_REQUEST_ATTEMPTS) {
+        throw error;
+      }
+
+      const delay = retryAfterMs(error) ?? RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+
+      if (status === 429 || status === 529) {
+        if (Date.now() + delay > pausedUntil) {
+          pausedUntil = Date.now() + delay;
+          console.log(`  ⏳ ${status === 429 ? 'Rate limited' : 'API overloaded'} (${status}): pausing all requests for ${Math.ceil(delay / 1000)}s`);
+        }
+        continue;
+      }
+
+      console.error(`  ⟳ ${error.message} (retry ${attempt}/${MAX_REQUEST_ATTEMPTS - 1} in ${Math.ceil(delay / 1000)}s)`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
 }
 
 /**
- * Analyze comment sentiment using Claude
+ * Analyze comment sentiment using Claude. The model answers through the
+ * record_analysis tool (see analysis-schema.ts); answers that fail validation
+ * are sent back with the errors for a repair, and after MAX_ATTEMPTS the
+ * comment is rejected instead of saved. Token usage covers all attempts.
  */
 async function analyzeSentiment(
   context: ThreadContext,
   comment: RedditComment,
   post: RedditPost
-): Promise<SentimentResult> {
-  const prompt = `You are analyzing Reddit comments comparing Claude Code and Codex (AI coding tools).
+): Promise<({ result: SentimentResult } | { reject: AnalysisReject }) & { usage: TokenUsage }> {
+  const [a, b] = STUDY.tools;
+  const aField = sentimentField(a);
+  const bField = sentimentField(b);
+
+  // Non-English comments are analyzed as written; the policy decides the quote's language
+  const language = isEnglish(comment.language) ? null : languageName(comment.language!);
+  const translate = language !== null && STUDY.languagePolicy === 'translate';
+  const languageNote = language
+    ? `\nThe LAST comment is written in ${language}. Analyze it as written, and give the reasoning and themes in English. ` +
+      (translate
+        ? `Translate the quote to English, and also give it exactly as written in "originalQuote".\n`
+        : `Keep the quote in ${language}, exactly as written.\n`)
+    : '';
+
+  const prompt = `You are analyzing Reddit comments comparing ${a.name} and ${b.name} (AI coding tools).
 
 ${context.fullText}
 
 ---
 
-Based on this discussion thread, analyze the LAST comment's sentiment toward Claude Code vs Codex:
-
+Based on this discussion thread, analyze the LAST comment's sentiment toward ${a.name} vs ${b.name}:
+${languageNote}
 1. **Comparison**: How does the comment compare the two tools?
-   - "codex_better": Direct comparison where Codex is preferred over Claude Code
-   - "claude_code_better": Direct comparison where Claude Code is preferred over Codex
+   - "${b.id}_better": Direct comparison where ${b.name} is preferred over ${a.name}
+   - "${a.id}_better": Direct comparison where ${a.name} is preferred over ${b.name}
    - "equal": Rates both tools equally
    - "neither": Discusses neither tool favorably
-   - "off_topic": Not actually comparing the tools (e.g., discussing other tools like GLM, Cursor, etc.)
-   - "claude_code_only_positive": Only discusses Claude Code with positive sentiment
-   - "claude_code_only_negative": Only discusses Claude Code with negative sentiment
-   - "codex_only_positive": Only discusses Codex with positive sentiment
-   - "codex_only_negative": Only discusses Codex with negative sentiment
-
-2. **Claude Code Sentiment**: positive, negative, neutral, or n/a (if not discussed)
-3. **Codex Sentiment**: positive, negative, neutral, or n/a (if not discussed)
+   - "off_topic": Not actually comparing the tools (e.g., discussing other tools)
+   - "${a.id}_only_positive": Only discusses ${a.name} with positive sentiment
+   - "${a.id}_only_negative": Only discusses ${a.name} with negative sentiment
+   - "${b.id}_only_positive": Only discusses ${b.name} with positive sentiment
+   - "${b.id}_only_negative": Only discusses ${b.name} with negative sentiment
+
+2. **${a.name} Sentiment**: positive, negative, neutral, or n/a (if not discussed)
+3. **${b.name} Sentiment**: positive, negative, neutral, or n/a (if not discussed)
 4. **Reasoning**: Brief explanation (1-2 sentences)
 5. **Themes**: What specific aspects are discussed? (e.g., "speed", "accuracy", "UI", "pricing", "bugs")
 6. **Quote-worthy**: Is this a substantive, quotable comparison? (true/false)
 7. **Quote**: If quote-worthy, extract the most relevant 1-2 sentence quote
 
-Respond in JSON format:
-{
-  "comparison": "codex_better" | "claude_code_better" | "equal" | "neither" | "off_topic" | "claude_code_only_positive" | "claude_code_only_negative" | "codex_only_positive" | "codex_only_negative",
-  "claudeCodeSentiment": "positive" | "negative" | "neutral" | "n/a",
-  "codexSentiment": "positive" | "negative" | "neutral" | "n/a",
-  "reasoning": "...",
-  "themes": ["...", "..."],
-  "quoteWorthy": true | false,
-  "quote": "..." (optional)
-}`;
-
-  const message = await anthropic.messages.create({
-    model: MODEL,
-    max_tokens: 1024,
-    messages: [{ role: 'user', content: prompt }],
-  });
-
-  const responseText = message.content[0].type === 'text' ? message.content[0].text : '{}';
-
-  // Extract JSON from response - handle various formats
-  let jsonText = responseText.trim();
+Record your analysis with the ${ANALYSIS_TOOL} tool.`;
+
+  const tool = analysisTool(STUDY, translate);
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
+  let output: unknown;
+  let errors: string[] = [];
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const message = await createMessage({
+      model: MODEL,
+      max_tokens: 1024,
+      tools: [tool],
+      tool_choice: { type: 'tool', name: ANALYSIS_TOOL },
+      messages,
+    });
+    messages.push({ role: 'assistant', content: message.content });
+    usage.inputTokens += message.usage.input_tokens;
+    usage.outputTokens += message.usage.output_tokens;
+
+    const toolUse = message.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+    if (!toolUse) {
+      output = undefined;
+      errors = [`no ${ANALYSIS_TOOL} call in the response`];
+      messages.push({ role: 'user', content: `Record your analysis with the ${ANALYSIS_TOOL} tool.` });
+      continue;
+    }
 
-  // Remove markdown code blocks
-  if (jsonText.includes('```')) {
-    const match = jsonText.match(/```(?:json)?\s*\n?(.*?)\n?```/s);
-    if (match) {
-      jsonText = match[1].trim();
+    output = toolUse.input;
+    errors = validateAnalysis(output, STUDY, translate);
+    if (errors.length === 0) {
+      break;
     }
-  }
 
-  // Find JSON object (look for first { and last })
-  const firstBrace = jsonText.indexOf('{');
-  const lastBrace = jsonText.lastIndexOf('}');
+    console.log(`  ↻ Invalid analysis for ${comment.id} (attempt ${attempt}/${MAX_ATTEMPTS}): ${errors.join('; ')}`);
+    messages.push({
+      role: 'user',
+      content: [{
+        type: 'tool_result',
+        tool_use_id: toolUse.id,
+        is_error: true,
+        content: `Invalid analysis:\n- ${errors.join('\n- ')}\n\nCall ${ANALYSIS_TOOL} again with corrected values.`,
+      }],
+    });
+  }
 
-  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-    jsonText = jsonText.substring(firstBrace, lastBrace + 1);
+  if (errors.length > 0) {
+    return {
+      reject: {
+        commentId: comment.id,
+        postId: post.postId,
+        permalink: `${post.permalink}${comment.id}`,
+        model: MODEL,
+        errors,
+        output,
+        attempts: MAX_ATTEMPTS,
+        rejectedAt: Date.now(),
+      },
+      usage,
+    };
   }
 
-  const analysis = JSON.parse(jsonText);
+  const analysis = output as ModelAnalysis;
+  const sentiments: Record<`${string}Sentiment`, Sentiment> = { [aField]: analysis[aField], [bField]: analysis[bField] };
+  const quote = quotable(comment) && analysis.quote ? redactText(analysis.quote) : undefined;
+  const originalQuote = translate && quote && analysis.originalQuote ? redactText(analysis.originalQuote) : undefined;
 
   return {
-    commentId: comment.id,
-    postId: post.postId,
-    subreddit: post.subreddit,
-    permalink: `${post.permalink}${comment.id}`,
-    comparison: analysis.comparison,
-    claudeCodeSentiment: analysis.claudeCodeSentiment,
-    codexSentiment: analysis.codexSentiment,
-    reasoning: analysis.reasoning,
-    themes: analysis.themes || [],
-    quoteWorthy: analysis.quoteWorthy || false,
-    quote: analysis.quote,
-    score: comment.score,
-    model: MODEL,
-    analyzedAt: Date.now(),
+    result: {
+      commentId: comment.id,
+      postId: post.postId,
+      subreddit: post.subreddit,
+      permalink: `${post.permalink}${comment.id}`,
+      comparison: analysis.comparison,
+      ...sentiments,
+      reasoning: redactText(analysis.reasoning),
+      themes: analysis.themes,
+      quoteWorthy: quote ? analysis.quoteWorthy : false,
+      quote,
+      originalQuote,
+      quoteMentions: quote ? findMentions(quote, STUDY) : undefined,
+      score: SCORE_HISTORY.get(comment.id)?.at(-1)?.[1] ?? comment.score,
+      controversiality: comment.controversiality,
+      isSubmitter: comment.isSubmitter,
+      language: comment.language,
+      model: MODEL,
+      analyzedAt: Date.now(),
+    },
+    usage,
   };
 }
 
 /**
- * Load already analyzed comment IDs
+ * Name of the tool whose GitHub repo the post is from (the implicit mention
+ * discover:github counts too), or '' for other sources
  */
-function loadAnalyzedComments(): Set<string> {
-  if (!existsSync(OUTPUT_FILE)) {
-    return new Set();
-  }
+function repoToolName(post: RedditPost): string {
+  const repo = STUDY.githubRepos.find(r => r.repo === post.subreddit);
+  return STUDY.tools.find(t => t.id === repo?.tool)?.name || '';
+}
 
-  const lines = readFileSync(OUTPUT_FILE, 'utf-8').split('\n').filter(l => l.trim());
-  const ids = new Set<string>();
+/**
+ * False for comments whose author asked not to be quoted
+ */
+function quotable(comment: RedditComment): boolean {
+  return !comment.doNotQuote && !isDoNotQuote(comment.author);
+}
 
-  for (const line of lines) {
-    try {
-      const result = JSON.parse(line);
-      ids.add(result.commentId);
-    } catch (e) {
-      // Skip malformed lines
+/**
+ * Scraped comments by ID, for metadata refreshed since the analysis
+ */
+function loadScrapedComments(): Map<string, RedditComment> {
+  const comments = new Map<string, RedditComment>();
+  for (const post of STORAGE.iteratePosts('clean')) {
+    for (const comment of post.comments) {
+      if (STORAGE.isAnalyzed(comment.id)) {
+        comments.set(comment.id, comment);
+      }
     }
   }
-
-  return ids;
+  return comments;
 }
 
 /**
- * Save sentiment result
+ * Copy results to the dashboard, (re)computing the quote mention spans it
+ * highlights and updating scores and comment metadata to the latest scrape.
+ * Text is redacted again and do-not-quote authors lose their quotes, so
+ * results analyzed before a rule or list change are covered too.
  */
-function saveSentiment(result: SentimentResult) {
-  writeFileSync(OUTPUT_FILE, JSON.stringify(result) + '\n', { flag: 'a' });
+function publishToDashboard() {
+  const lineage = startStage(STUDY, STORAGE, 'publish', ['analyses', 'clean', SNAPSHOTS_FILE]);
+  const scraped = loadScrapedComments();
+  const published = STORAGE.loadAnalyses().map(result => {
+    const comment = scraped.get(result.commentId);
+    if (comment && !quotable(comment)) {
+      delete result.quote;
+      delete result.originalQuote;
+      delete result.quoteMentions;
+      result.quoteWorthy = false;
+    }
+    result.reasoning = redactText(result.reasoning || '');
+    if (result.quote) {
+      result.quote = redactText(result.quote);
+      result.quoteMentions = findMentions(result.quote, STUDY);
+    }
+    if (result.originalQuote) {
+      result.originalQuote = redactText(result.originalQuote);
+    }
+    if (comment?.controversiality !== undefined) {
+      result.controversiality = comment.controversiality;
+      result.isSubmitter = comment.isSubmitter;
+    }
+    if (comment) {
+      result.hygiene = comment.hygiene;
+      result.language = comment.language;
+    }
+    const history = SCORE_HISTORY.get(result.commentId);
+    if (history) {
+      result.score = history[history.length - 1][1];
+      result.scoreHistory = history;
+    }
+    return JSON.stringify(result) + '\n';
+  });
+
+  writeFileSync(DASHBOARD_OUTPUT_FILE, published.join(''));
+  writeFileSync(DASHBOARD_STUDY_FILE, JSON.stringify({
+    id: STUDY.id,
+    title: STUDY.title,
+    tools: STUDY.tools.map(tool => ({ id: tool.id, name: tool.name })),
+  }, null, 2) + '\n');
+  lineage.finish([DASHBOARD_OUTPUT_FILE]);
+  console.log(`  Copied to: ${DASHBOARD_OUTPUT_FILE} (tools in ${DASHBOARD_STUDY_FILE})`);
 }
 
 /**
  * Log run metadata
  */
-interface RunLog {
-  timestamp: number;
-  model: string;
-  totalCandidates: number;
-  alreadyAnalyzed: number;
-  analyzedThisRun: number;
-  errors: number;
-  timeSeconds: number;
-  inputTokens: number;
-  outputTokens: number;
-  estimatedCost: number;
-  batchSize: number;
-}
-
 function logRun(logData: RunLog) {
-  // Ensure logs directory exists
-  if (!existsSync(LOGS_DIR)) {
-    mkdirSync(LOGS_DIR, { recursive: true });
-  }
-
-  writeFileSync(RUN_LOG_FILE, JSON.stringify(logData) + '\n', { flag: 'a' });
+  STORAGE.appendRun(logData);
 }
 
 async function main() {
-  console.log('🎭 Claude Code vs Codex Sentiment Analysis\n');
+  console.log(`🎭 ${STUDY.title} Sentiment Analysis\n`);
+
+  // --publish: only refresh the dashboard copy (e.g. after changing aliases)
+  if (hasFlag('publish')) {
+    if (!STUDY.publishToDashboard || !STORAGE.has('analyses')) {
+      console.error(`❌ Nothing to publish: ${STUDY.id} has no analysis output or publishToDashboard is off`);
+      process.exit(1);
+    }
+    publishToDashboard();
+    return;
+  }
 
   // Check for API key
   if (!process.env.ANTHROPIC_API_KEY) {
@@ -272,91 +409,151 @@ async function main() {
   }
 
   // Load data
-  if (!existsSync(INPUT_FILE)) {
-    console.error(`❌ ${INPUT_FILE} not found`);
+  if (!STORAGE.has('clean')) {
+    console.error(`❌ ${STORAGE.location('clean')} not found`);
     console.error('   Run "npm run filter-clean" first');
     process.exit(1);
   }
 
-  console.log(`Reading ${INPUT_FILE}...`);
-  const lines = readFileSync(INPUT_FILE, 'utf-8').split('\n').filter(l => l.trim());
-  const posts: RedditPost[] = lines.map(line => JSON.parse(line));
+  console.log(`Reading ${STORAGE.location('clean')}...\n`);
 
-  console.log(`  Loaded ${posts.length} posts\n`);
-
-  // Find all comments in threads mentioning both tools
-  const analyzedIds = loadAnalyzedComments();
-  const candidateComments: Array<{ comment: RedditComment; post: RedditPost; context: ThreadContext }> = [];
+  // Find all comments in threads mentioning both tools. Posts are read one
+  // at a time; only the first BATCH_SIZE candidates are kept.
+  const rejectedIds = new Set(loadRejects(STUDY).map(reject => reject.commentId));
+  const retryRejects = hasFlag('retry-rejects');
+  const batch: Array<{ comment: RedditComment; post: RedditPost; context: ThreadContext }> = [];
+  let postCount = 0;
+  let candidateCount = 0;
+  let analyzedSkipped = 0;
+  let flaggedSkipped = 0;
+  let languageSkipped = 0;
+  let rejectedSkipped = 0;
 
   console.log('🔍 Filtering for comparative comments...\n');
 
-  for (const post of posts) {
+  for (const post of STORAGE.iteratePosts('clean')) {
+    postCount++;
+
     for (const comment of post.comments) {
-      // Skip already analyzed
-      if (analyzedIds.has(comment.id)) continue;
+      // Deleted/removed placeholders have nothing to analyze
+      if (comment.deleted) continue;
 
       // Build context
       const context = getThreadContext(comment, post.comments, post);
 
-      // Check if thread mentions both tools
-      if (mentionsBothTools(context.fullText)) {
-        candidateComments.push({ comment, post, context });
+      // Check if thread mentions both tools (a tool's own repo, e.g. openai/codex, counts).
+      // Skip reasons below are counted among these candidates only.
+      if (!mentionsBothTools(`${repoToolName(post)}\n${context.fullText}`, STUDY)) continue;
+      candidateCount++;
+
+      if (STORAGE.isAnalyzed(comment.id)) {
+        analyzedSkipped++;
+        continue;
+      }
+
+      // Failed validation in an earlier run (see rejects.ts)
+      if (rejectedIds.has(comment.id) && !retryRejects) {
+        rejectedSkipped++;
+        continue;
+      }
+
+      // Bots, moderator templates, spam and copies flagged by filter-clean (see hygiene.ts)
+      if (comment.hygiene) {
+        flaggedSkipped++;
+        continue;
+      }
+
+      // Non-English comments, when the study's language policy is "skip"
+      if (STUDY.languagePolicy === 'skip' && !isEnglish(comment.language)) {
+        languageSkipped++;
+        continue;
+      }
+
+      if (batch.length < BATCH_SIZE) {
+        batch.push({ comment, post, context });
       }
     }
   }
 
-  console.log(`  Found ${candidateComments.length} comments in comparative threads`);
-  console.log(`  Already analyzed: ${analyzedIds.size}`);
-  console.log(`  To analyze: ${Math.min(candidateComments.length, BATCH_SIZE)}\n`);
+  console.log(`  Loaded ${postCount} posts`);
+  console.log(`  Found ${candidateCount} comments in comparative threads`);
+  console.log(`  Already analyzed: ${analyzedSkipped}`);
+  console.log(`  Skipped (hygiene flags): ${flaggedSkipped}`);
+  if (STUDY.languagePolicy === 'skip') {
+    console.log(`  Skipped (not in English): ${languageSkipped}`);
+  }
+  if (rejectedSkipped > 0) {
+    console.log(`  Skipped (rejected before, retry with --retry-rejects): ${rejectedSkipped}`);
+  }
+  console.log(`  To analyze: ${batch.length}\n`);
 
-  if (candidateComments.length === 0) {
+  if (batch.length === 0) {
     console.log('✓ No new comments to analyze');
     return;
   }
 
+  const lineage = startStage(STUDY, STORAGE, 'analyze', ['clean', 'analyses', SNAPSHOTS_FILE, rejectsFile(STUDY)], {
+    model: MODEL,
+    batchSize: BATCH_SIZE,
+    languagePolicy: STUDY.languagePolicy,
+    maxAttempts: MAX_ATTEMPTS,
+    concurrency: CONCURRENCY,
+  });
+
   // Analyze batch
-  const batch = candidateComments.slice(0, BATCH_SIZE);
+  let completed = 0;
   let analyzed = 0;
+  let rejected = 0;
   let errors = 0;
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
   const startTime = Date.now();
 
-  console.log(`🤖 Analyzing ${batch.length} comments with ${MODEL}...\n`);
+  console.log(`🤖 Analyzing ${batch.length} comments with ${MODEL}, ${CONCURRENCY} at a time...\n`);
 
-  for (let i = 0; i < batch.length; i++) {
-    const { comment, post, context } = batch[i];
+  // Comments are analyzed concurrently but saved in batch order, one at a time
+  await runPool(
+    batch,
+    CONCURRENCY,
+    ({ comment, post, context }) => analyzeSentiment(context, comment, post).catch((error: any) => ({ error })),
+    (outcome, { comment }) => {
+      completed++;
 
-    try {
-      const result = await analyzeSentiment(context, comment, post);
-      saveSentiment(result);
-      analyzed++;
+      if ('error' in outcome) {
+        console.error(`  ✗ Error analyzing comment ${comment.id}: ${outcome.error.message}`);
+        errors++;
+        return;
+      }
+
+      if ('reject' in outcome) {
+        recordReject(STUDY, outcome.reject);
+        console.error(`  ⊘ Rejected comment ${comment.id}: ${outcome.reject.errors.join('; ')}`);
+        rejected++;
+      } else {
+        STORAGE.appendAnalysis(outcome.result);
+        clearReject(STUDY, comment.id);
+        analyzed++;
+      }
 
-      // Estimate tokens (rough)
-      const inputTokens = Math.ceil(context.fullText.length / 4);
-      const outputTokens = 200; // avg estimate
-      totalInputTokens += inputTokens;
-      totalOutputTokens += outputTokens;
+      // Billed tokens, as reported by the API
+      totalInputTokens += outcome.usage.inputTokens;
+      totalOutputTokens += outcome.usage.outputTokens;
 
-      if (analyzed % 10 === 0) {
+      if (completed % 10 === 0 && completed < batch.length) {
+        // Wall-clock time per completed comment already reflects the parallelism
         const elapsed = (Date.now() - startTime) / 1000;
-        const rate = analyzed / elapsed;
-        const remaining = batch.length - analyzed;
+        const rate = completed / elapsed;
+        const remaining = batch.length - completed;
         const eta = Math.round(remaining / rate);
 
-        console.log(`  Progress: ${analyzed}/${batch.length}`);
+        console.log(`  Progress: ${completed}/${batch.length} (${analyzed} analyzed)`);
         console.log(`  Rate: ${rate.toFixed(1)} comments/sec`);
         console.log(`  ETA: ${eta}s\n`);
       }
-
-      // Rate limiting (be nice to API)
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-    } catch (error: any) {
-      console.error(`  ✗ Error analyzing comment ${comment.id}: ${error.message}`);
-      errors++;
     }
-  }
+  );
+
+  lineage.finish(['analyses', rejectsFile(STUDY)]);
 
   const totalTime = Math.round((Date.now() - startTime) / 1000);
   const inputCost = (totalInputTokens / 1_000_000) * 1.00; // Haiku pricing
@@ -366,34 +563,37 @@ async function main() {
   // Log run metadata
   logRun({
     timestamp: Date.now(),
+    study: STUDY.id,
     model: MODEL,
-    totalCandidates: candidateComments.length + analyzedIds.size,
-    alreadyAnalyzed: analyzedIds.size,
+    totalCandidates: candidateCount + analyzedSkipped,
+    alreadyAnalyzed: analyzedSkipped,
     analyzedThisRun: analyzed,
+    rejected,
     errors: errors,
     timeSeconds: totalTime,
     inputTokens: totalInputTokens,
     outputTokens: totalOutputTokens,
     estimatedCost: totalCost,
     batchSize: BATCH_SIZE,
+    concurrency: CONCURRENCY,
   });
 
   console.log(`\n✓ Analysis complete!`);
   console.log(`  Time: ${totalTime}s`);
   console.log(`  Analyzed: ${analyzed} comments`);
+  console.log(`  Rejected: ${rejected}${rejected > 0 ? ` (see ${rejectsFile(STUDY)})` : ''}`);
   console.log(`  Errors: ${errors}`);
   console.log(`  Tokens: ${totalInputTokens.toLocaleString()} in, ${totalOutputTokens.toLocaleString()} out`);
   console.log(`  Cost: ~$${totalCost.toFixed(4)} (estimated)`);
-  console.log(`  Saved to: ${OUTPUT_FILE}`);
-  console.log(`  Run log: ${RUN_LOG_FILE}`);
+  console.log(`  Saved to: ${STORAGE.location('analyses')}`);
+  console.log(`  Run log: ${STORAGE.location('runs')}`);
 
-  // Copy to dashboard for automatic refresh
-  if (existsSync(OUTPUT_FILE)) {
-    copyFileSync(OUTPUT_FILE, DASHBOARD_OUTPUT_FILE);
-    console.log(`  Copied to: ${DASHBOARD_OUTPUT_FILE}`);
+  // Copy to dashboard for automatic refresh (only the published study)
+  if (STUDY.publishToDashboard && STORAGE.has('analyses')) {
+    publishToDashboard();
   }
 
-  console.log(`\n💡 Run again to analyze next batch of ${Math.min(candidateComments.length - batch.length, BATCH_SIZE)} comments`);
+  console.log(`\n💡 Run again to analyze next batch of ${Math.min(candidateCount - batch.length, BATCH_SIZE)} comments`);
 }
 
 main().catch(console.error);
@@ -0,0 +1,30 @@
+/**
+ * Minimal command-line flag helpers shared by the pipeline scripts.
+ * Supports `--name value`, `--name=value` and bare `--name` switches.
+ */
+
+/**
+ * Check whether a bare switch (e.g. --full) was passed
+ */
+export function hasFlag(name: string): boolean {
+  return process.argv.slice(2).some(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+}
+
+/**
+ * Read the value of a flag, or undefined if it was not passed
+ */
+export function getFlag(name: string): string | undefined {
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+    if (arg === `--${name}` && i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      return args[i + 1];
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,125 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { hasFlag, getFlag } from './args';
+
+/**
+ * Record/replay for HTTP JSON APIs so stages can run offline.
+ *
+ *   --record   fetch live and save every response to cassettes/<name>.json
+ *   --replay   serve responses from cassettes/<name>.json, never touch the network
+ *
+ * The same modes can be set with CASSETTE=record|replay. Recording adds to an
+ * existing cassette, so the stages of a pipeline (discover, then scrape) can
+ * be recorded one after another into the same file; delete the cassette to
+ * start a new recording.
+ */
+
+const CASSETTES_DIR = 'cassettes';
+
+export type CassetteMode = 'live' | 'record' | 'replay';
+
+interface CassetteFile {
+  recordedAt: number;              // Date.now() when the cassette was started
+  responses: Record<string, any>;  // request key -> parsed JSON body
+}
+
+const loaded = new Map<string, CassetteFile>();
+
+/**
+ * A replay asked for a request the cassette doesn't hold. Stages let it end
+ * the run: replaying without the response can only give wrong results.
+ */
+export class CassetteMissError extends Error {
+  name = 'CassetteMissError';
+}
+
+/**
+ * Current cassette mode from flags or environment
+ */
+export function cassetteMode(): CassetteMode {
+  if (hasFlag('replay') || process.env.CASSETTE === 'replay') return 'replay';
+  if (hasFlag('record') || process.env.CASSETTE === 'record') return 'record';
+  return 'live';
+}
+
+function cassettePath(name: string): string {
+  return join(CASSETTES_DIR, `${name}.json`);
+}
+
+function loadCassette(name: string): CassetteFile {
+  const cached = loaded.get(name);
+  if (cached) return cached;
+
+  const file = cassettePath(name);
+  let cassette: CassetteFile;
+
+  if (existsSync(file)) {
+    // Recording keeps the responses (and clock) of earlier stages
+    cassette = JSON.parse(readFileSync(file, 'utf-8'));
+  } else if (cassetteMode() === 'replay') {
+    throw new Error(`Cassette not found: ${file} (record one with --record)`);
+  } else {
+    cassette = { recordedAt: Date.now(), responses: {} };
+  }
+
+  loaded.set(name, cassette);
+  return cassette;
+}
+
+/**
+ * Clock for time-window cutoffs. Replays run at the time the cassette was
+ * recorded so "last N months" selects the same records every time;
+ * `--as-of <ISO date>` pins the clock explicitly (e.g. against fixture-server).
+ */
+export function cassetteNow(name: string): number {
+  const asOf = getFlag('as-of') || process.env.AS_OF;
+  if (asOf) return Date.parse(asOf);
+  return cassetteMode() === 'replay' ? loadCassette(name).recordedAt : Date.now();
+}
+
+/**
+ * Record or replay any JSON-serialisable result under a key. `load` only
+ * runs outside replay mode.
+ */
+export async function recorded<T>(name: string, key: string, load: () => Promise<T>): Promise<T> {
+  const mode = cassetteMode();
+
+  if (mode === 'replay') {
+    const cassette = loadCassette(name);
+    if (!(key in cassette.responses)) {
+      throw new CassetteMissError(`No recorded response for ${key} in ${cassettePath(name)}`);
+    }
+    return cassette.responses[key];
+  }
+
+  const data = await load();
+
+  if (mode === 'record') {
+    const cassette = loadCassette(name);
+    cassette.responses[key] = data;
+    if (!existsSync(CASSETTES_DIR)) {
+      mkdirSync(CASSETTES_DIR, { recursive: true });
+    }
+    writeFileSync(cassettePath(name), JSON.stringify(cassette, null, 2) + '\n');
+  }
+
+  return data;
+}
+
+/**
+ * Fetch a JSON document, recording or replaying it depending on the mode
+ */
+export async function fetchJson<T = any>(name: string, url: string, init?: RequestInit): Promise<T> {
+  const key = init?.body ? `${init.method || 'POST'} ${url} ${init.body}` : url;
+
+  return recorded(name, key, async () => {
+    const response = await fetch(url, init);
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`HTTP ${response.status} from ${url} - ${error}`);
+    }
+
+    return response.json();
+  });
+}
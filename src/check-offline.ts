@@ -0,0 +1,97 @@
+import { spawn, spawnSync } from 'child_process';
+import { readFileSync, existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * Check that the two offline ways of running GitHub discovery agree:
+ * `--replay` from cassettes/github.json, and the same cassette served by
+ * `npm run fixture-server` with GITHUB_API_URL pointing at it. Both runs write
+ * to throwaway data directories and must discover the same threads.
+ *
+ *   npm run check:offline
+ */
+
+const STUDY_ID = 'sample';
+const CASSETTE_FILE = 'cassettes/github.json';
+const PORT = 4011;
+
+// Stages run as plain node processes (tsx as a loader), so the server can be stopped by its pid
+const TSX = [process.execPath, '--import', 'tsx'];
+
+/**
+ * Run discover:github into a fresh data directory; returns the discovered URLs
+ */
+function discover(label: string, args: string[], env: Record<string, string> = {}): string[] {
+  const dataDir = mkdtempSync(join(tmpdir(), `check-offline-${label}-`));
+  try {
+    const run = spawnSync(TSX[0], [...TSX.slice(1), 'src/discover-github.ts', '--study', STUDY_ID, '--data-dir', dataDir, ...args], {
+      env: { ...process.env, ...env },
+      encoding: 'utf-8',
+    });
+    if (run.status !== 0) {
+      console.error(`❌ ${label} discovery failed:\n${run.stdout}${run.stderr}`);
+      process.exit(1);
+    }
+
+    const file = join(dataDir, 'discovered_urls.jsonl');
+    if (!existsSync(file)) {
+      return [];
+    }
+    return readFileSync(file, 'utf-8').split('\n').filter(line => line.trim()).map(line => JSON.parse(line).url).sort();
+  } finally {
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Start the fixture server and wait until it listens
+ */
+function startFixtureServer(): Promise<ReturnType<typeof spawn>> {
+  const server = spawn(TSX[0], [...TSX.slice(1), 'src/fixture-server.ts', CASSETTE_FILE, '--port', PORT.toString()], {
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+
+  return new Promise((resolve, reject) => {
+    server.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes(`localhost:${PORT}`)) resolve(server);
+    });
+    server.on('exit', code => reject(new Error(`fixture server exited (${code})`)));
+  });
+}
+
+async function main() {
+  console.log(`🔁 Checking offline GitHub discovery (${CASSETTE_FILE}, study ${STUDY_ID})\n`);
+
+  const replayed = discover('replay', ['--replay']);
+  console.log(`  --replay:        ${replayed.length} threads`);
+
+  const recordedAt = JSON.parse(readFileSync(CASSETTE_FILE, 'utf-8')).recordedAt;
+  const server = await startFixtureServer();
+  let served: string[];
+  try {
+    served = discover('fixture', ['--as-of', new Date(recordedAt).toISOString()], {
+      GITHUB_API_URL: `http://localhost:${PORT}`,
+      GITHUB_TOKEN: '',
+    });
+  } finally {
+    server.kill();
+  }
+  console.log(`  fixture server:  ${served.length} threads`);
+
+  const missing = replayed.filter(url => !served.includes(url));
+  const extra = served.filter(url => !replayed.includes(url));
+  if (replayed.length === 0 || missing.length > 0 || extra.length > 0) {
+    console.error(`\n❌ Offline modes disagree`);
+    missing.forEach(url => console.error(`   only with --replay: ${url}`));
+    extra.forEach(url => console.error(`   only with the fixture server: ${url}`));
+    process.exit(1);
+  }
+
+  console.log(`\n✓ Both offline modes discover the same ${replayed.length} threads`);
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
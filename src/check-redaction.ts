@@ -0,0 +1,51 @@
+import { redactText } from './privacy';
+
+/**
+ * Check redactText() (privacy.ts) on the text it gets wrong most easily:
+ * mentions must go, code, annotations, decorators and doc tags must stay.
+ *
+ *   npm run check:redaction
+ */
+
+const CASES: { text: string; expected: string }[] = [
+  // Mentions
+  { text: '@alice codex fixed it', expected: '@[user] codex fixed it' },
+  { text: 'thanks @bob_42.', expected: 'thanks @[user].' },
+  { text: 'cc @carol, @dave-x', expected: 'cc @[user], @[user]' },
+  { text: 'as said above (@erin)', expected: 'as said above (@[user])' },
+  { text: 'ask u/frank or /u/grace', expected: 'ask u/[user] or /u/[user]' },
+  { text: 'mail me at heidi@example.com', expected: 'mail me at [email]' },
+
+  // Annotations and decorators in prose
+  { text: 'Claude added @Override to every method', expected: 'Claude added @Override to every method' },
+  { text: 'it forgot the @Component decorator', expected: 'it forgot the @Component decorator' },
+  { text: 'wrap it in @Component({ selector: "app" })', expected: 'wrap it in @Component({ selector: "app" })' },
+  { text: 'Codex writes @param and @returns for everything', expected: 'Codex writes @param and @returns for everything' },
+  { text: 'routes use @app.route("/")', expected: 'routes use @app.route("/")' },
+  { text: 'npm i @anthropic-ai/sdk', expected: 'npm i @anthropic-ai/sdk' },
+  { text: 'user.@name stays', expected: 'user.@name stays' },
+
+  // Code is left as written
+  { text: 'use `@Injectable() class Api` here', expected: 'use `@Injectable() class Api` here' },
+  { text: 'see `@MyCustomThing` vs @alice', expected: 'see `@MyCustomThing` vs @[user]' },
+  {
+    text: '```java\n@CustomAnnotation\n@Autowired\nprivate Repo repo; // u/nobody\n```\nthanks @zoe',
+    expected: '```java\n@CustomAnnotation\n@Autowired\nprivate Repo repo; // u/nobody\n```\nthanks @[user]',
+  },
+  { text: 'truncated:\n```ts\n@Decorator\nclass A', expected: 'truncated:\n```ts\n@Decorator\nclass A' },
+];
+
+let failures = 0;
+for (const { text, expected } of CASES) {
+  const actual = redactText(text);
+  if (actual !== expected) {
+    failures++;
+    console.error(`❌ ${JSON.stringify(text)}\n   expected ${JSON.stringify(expected)}\n   got      ${JSON.stringify(actual)}`);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n❌ ${failures} of ${CASES.length} redaction cases failed`);
+  process.exit(1);
+}
+console.log(`✓ ${CASES.length} redaction cases pass`);
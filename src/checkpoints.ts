@@ -0,0 +1,91 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { hasFlag, getFlag } from './args';
+import { Study, studyFile } from './study';
+
+/**
+ * Discovery checkpoints: the newest post seen per subreddit crawl / Google
+ * query, so re-runs only walk back to where the previous run started.
+ *
+ *   --full           ignore checkpoints and crawl the whole time window
+ *   --since <date>   ignore checkpoints and crawl back to <date>
+ *
+ * Stored in <dataDir>/discovery_checkpoints.json, keyed by e.g.
+ * "reddit:ClaudeCode:listing" or "google:<query>".
+ */
+
+export interface Checkpoint {
+  newestId: string;        // Reddit fullname (t3_xxx) or post id of the newest post seen
+  newestCreated: number;   // unix seconds
+  updatedAt: number;       // Date.now() of the run that wrote it
+}
+
+function checkpointsFile(study: Study): string {
+  return studyFile(study, 'discovery_checkpoints.json');
+}
+
+function loadCheckpoints(study: Study): Record<string, Checkpoint> {
+  const file = checkpointsFile(study);
+  if (!existsSync(file)) {
+    return {};
+  }
+  return JSON.parse(readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Checkpoint for a crawl, unless --full or --since asks to ignore it
+ */
+export function loadCheckpoint(study: Study, key: string): Checkpoint | null {
+  if (hasFlag('full') || getFlag('since')) {
+    return null;
+  }
+  return loadCheckpoints(study)[key] || null;
+}
+
+/**
+ * Record the newest post a crawl has seen. Only call this once the crawl has
+ * covered everything down to its floor, or later runs would skip the gap.
+ */
+export function saveCheckpoint(study: Study, key: string, checkpoint: Checkpoint) {
+  const checkpoints = loadCheckpoints(study);
+  const previous = checkpoints[key];
+
+  // Never move a checkpoint backwards (e.g. a --since backfill of older posts)
+  if (previous && previous.newestCreated > checkpoint.newestCreated) {
+    return;
+  }
+
+  checkpoints[key] = checkpoint;
+  writeFileSync(checkpointsFile(study), JSON.stringify(checkpoints, null, 2) + '\n');
+}
+
+/**
+ * Oldest timestamp (unix seconds) a crawl needs to reach: the --since date,
+ * else the checkpoint, else the study's time-window cutoff
+ */
+export function crawlFloor(cutoffTimestamp: number, checkpoint: Checkpoint | null): number {
+  const since = getFlag('since');
+  if (since) {
+    const sinceMs = Date.parse(since);
+    if (isNaN(sinceMs)) {
+      console.error(`❌ Invalid --since date: ${since} (expected YYYY-MM-DD)`);
+      process.exit(1);
+    }
+    return Math.floor(sinceMs / 1000);
+  }
+
+  if (checkpoint) {
+    return Math.max(cutoffTimestamp, checkpoint.newestCreated);
+  }
+
+  return cutoffTimestamp;
+}
+
+/**
+ * One-line description of where crawls stop, for the run header
+ */
+export function describeCrawlMode(): string {
+  if (hasFlag('full')) return 'full (checkpoints ignored)';
+  const since = getFlag('since');
+  if (since) return `since ${since} (checkpoints ignored)`;
+  return 'incremental (stop at checkpoints)';
+}
@@ -0,0 +1,262 @@
+import { config } from 'dotenv';
+import { loadStudy, StudyGitHubRepo } from './study';
+import { mentionsBothTools } from './mentions';
+import { cassetteMode, cassetteNow, CassetteMissError } from './cassette';
+import {
+  GITHUB_CASSETTE, GitHubReactions, GitHubReactionGroup,
+  githubGet, githubGraphQL, canQueryGraphQL, reactionScore, reactionGroupScore,
+} from './github';
+import { DiscoveredURL } from './types';
+import { discoveredKey, loadDiscoveredKeys, saveDiscoveredURL } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+
+config();
+
+/**
+ * Discover GitHub issues and discussions in each tool's own repo that mention
+ * the other tool. The repo counts as a mention of its own tool, since people
+ * filing issues against claude-code rarely spell out "Claude Code".
+ *
+ * Offline: `npm run discover:github -- --replay`, or run `npm run fixture-server`
+ * and set GITHUB_API_URL=http://localhost:4010 (plus --as-of, see fixture-server.ts)
+ */
+
+const STUDY = loadStudy();
+const MONTHS_BACK = STUDY.monthsBack;
+
+// Source tag written to DiscoveredURL.query
+const SOURCE_TAG = 'github_api';
+
+// GitHub search returns at most 1000 results (10 pages of 100)
+const MAX_SEARCH_PAGES = 10;
+
+const STORAGE = openStorage(STUDY);
+
+interface SearchIssuesResponse {
+  total_count: number;
+  items: Array<{
+    html_url: string;
+    number: number;
+    title: string;
+    body: string | null;
+    created_at: string;
+    reactions?: GitHubReactions;
+    pull_request?: unknown;
+  }>;
+}
+
+interface SearchDiscussionsResponse {
+  search: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: Array<{
+      url: string;
+      number: number;
+      title: string;
+      body: string;
+      createdAt: string;
+      reactionGroups: GitHubReactionGroup[];
+    }>;
+  };
+}
+
+const SEARCH_DISCUSSIONS_QUERY = `
+  query($q: String!, $after: String) {
+    search(query: $q, type: DISCUSSION, first: 50, after: $after) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ... on Discussion {
+          url number title body createdAt
+          reactionGroups { content reactors { totalCount } }
+        }
+      }
+    }
+  }`;
+
+/**
+ * GitHub search query for a repo: any alias of the other tool, within the time window
+ */
+function buildSearchQuery(target: StudyGitHubRepo, cutoffDate: Date): string {
+  const otherTools = STUDY.tools.filter(t => t.id !== target.tool);
+  const terms = otherTools.flatMap(t => t.aliases).map(a => `"${a}"`).join(' OR ');
+  const since = cutoffDate.toISOString().split('T')[0];
+  return `repo:${target.repo} ${terms} created:>=${since}`;
+}
+
+/**
+ * Record a match if it is new and mentions both tools
+ */
+function consider(
+  target: StudyGitHubRepo,
+  existingKeys: Set<string>,
+  candidate: { url: string; title: string; body: string; score: number; created: number }
+): DiscoveredURL | null {
+  if (existingKeys.has(discoveredKey(candidate.url))) {
+    return null;
+  }
+
+  const repoTool = STUDY.tools.find(t => t.id === target.tool);
+  const searchText = `${repoTool?.name || ''} ${candidate.title} ${candidate.body}`;
+  if (!mentionsBothTools(searchText, STUDY)) {
+    return null;
+  }
+
+  const record: DiscoveredURL = {
+    url: candidate.url,
+    title: candidate.title,
+    snippet: candidate.body.slice(0, 200),
+    discoveredAt: Date.now(),
+    query: SOURCE_TAG,
+    subreddit: target.repo,
+    score: candidate.score,
+    created: candidate.created,
+  };
+
+  existingKeys.add(discoveredKey(candidate.url));
+  saveDiscoveredURL(STORAGE, record);
+  console.log(`  ✓ ${candidate.title} (${candidate.score} 👍)`);
+
+  return record;
+}
+
+/**
+ * Discover issues in one repo via the REST search API
+ */
+async function discoverIssues(target: StudyGitHubRepo, cutoffDate: Date): Promise<DiscoveredURL[]> {
+  console.log(`\n📡 Searching issues in ${target.repo}...`);
+
+  const existingKeys = loadDiscoveredKeys(STORAGE);
+  const discovered: DiscoveredURL[] = [];
+  const q = `${buildSearchQuery(target, cutoffDate)} is:issue`;
+
+  for (let page = 1; page <= MAX_SEARCH_PAGES; page++) {
+    try {
+      const params = new URLSearchParams({ q, sort: 'created', order: 'desc', per_page: '100', page: page.toString() });
+      const response = await githubGet<SearchIssuesResponse>(`/search/issues?${params}`);
+
+      if (page === 1) {
+        console.log(`  GitHub reports ${response.total_count} matching issues`);
+      }
+
+      for (const issue of response.items) {
+        if (issue.pull_request) continue;
+
+        const record = consider(target, existingKeys, {
+          url: issue.html_url,
+          title: issue.title,
+          body: issue.body || '',
+          score: reactionScore(issue.reactions),
+          created: Math.floor(Date.parse(issue.created_at) / 1000),
+        });
+        if (record) discovered.push(record);
+      }
+
+      if (response.items.length < 100) break;
+
+      // Search API allows 30 requests/minute authenticated
+      if (cassetteMode() !== 'replay') {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+    } catch (error: any) {
+      if (error instanceof CassetteMissError) throw error;
+      console.error(`  ✗ Error searching ${target.repo} issues: ${error.message}`);
+      break;
+    }
+  }
+
+  console.log(`  ✓ Found: ${discovered.length} matching issues`);
+  return discovered;
+}
+
+/**
+ * Discover discussions in one repo via GraphQL search
+ */
+async function discoverDiscussions(target: StudyGitHubRepo, cutoffDate: Date): Promise<DiscoveredURL[]> {
+  console.log(`\n📡 Searching discussions in ${target.repo}...`);
+
+  if (!canQueryGraphQL()) {
+    console.log(`  ⊗ Skipping: GitHub GraphQL needs GITHUB_TOKEN`);
+    return [];
+  }
+
+  const existingKeys = loadDiscoveredKeys(STORAGE);
+  const discovered: DiscoveredURL[] = [];
+  const q = buildSearchQuery(target, cutoffDate);
+  let after: string | null = null;
+
+  while (true) {
+    try {
+      const data: SearchDiscussionsResponse = await githubGraphQL<SearchDiscussionsResponse>(
+        SEARCH_DISCUSSIONS_QUERY, { q, after }
+      );
+
+      for (const discussion of data.search.nodes) {
+        const record = consider(target, existingKeys, {
+          url: discussion.url,
+          title: discussion.title,
+          body: discussion.body || '',
+          score: reactionGroupScore(discussion.reactionGroups),
+          created: Math.floor(Date.parse(discussion.createdAt) / 1000),
+        });
+        if (record) discovered.push(record);
+      }
+
+      if (!data.search.pageInfo.hasNextPage) break;
+      after = data.search.pageInfo.endCursor;
+    } catch (error: any) {
+      if (error instanceof CassetteMissError) throw error;
+      console.error(`  ✗ Error searching ${target.repo} discussions: ${error.message}`);
+      break;
+    }
+  }
+
+  console.log(`  ✓ Found: ${discovered.length} matching discussions`);
+  return discovered;
+}
+
+async function main() {
+  console.log(`🔍 GitHub Discovery: Finding ${STUDY.title} discussions\n`);
+  console.log(`Repos: ${STUDY.githubRepos.map(r => r.repo).join(', ')}`);
+  console.log(`Time range: Last ${MONTHS_BACK} months`);
+  if (cassetteMode() !== 'live') {
+    console.log(`Cassette: ${cassetteMode()} (cassettes/${GITHUB_CASSETTE}.json)`);
+  }
+
+  if (STUDY.githubRepos.length === 0) {
+    console.log('\nNo githubRepos configured for this study. Exiting.');
+    return;
+  }
+
+  // Calculate cutoff date
+  const cutoffDate = new Date(cassetteNow(GITHUB_CASSETTE));
+  cutoffDate.setMonth(cutoffDate.getMonth() - MONTHS_BACK);
+
+  const lineage = startStage(STUDY, STORAGE, 'discover:github', ['discovered'], {
+    repos: STUDY.githubRepos,
+    monthsBack: MONTHS_BACK,
+    cassette: cassetteMode(),
+  });
+
+  const startTime = Date.now();
+  let totalDiscovered = 0;
+
+  for (const target of STUDY.githubRepos) {
+    totalDiscovered += (await discoverIssues(target, cutoffDate)).length;
+    totalDiscovered += (await discoverDiscussions(target, cutoffDate)).length;
+  }
+
+  lineage.finish(['discovered']);
+
+  const duration = Math.round((Date.now() - startTime) / 1000);
+
+  console.log(`\n✓ Discovery complete!`);
+  console.log(`  Time: ${duration}s`);
+  console.log(`  Found: ${totalDiscovered} new matching threads`);
+  console.log(`  Saved to: ${STORAGE.location('discovered')}`);
+  console.log(`\nNext step: Run "npm run scrape:github" to fetch full threads + comments`);
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
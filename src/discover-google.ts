@@ -1,15 +1,28 @@
 import { config } from 'dotenv';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { loadStudy } from './study';
+import { loadCheckpoint, saveCheckpoint, crawlFloor, describeCrawlMode } from './checkpoints';
+import {
+  GooglePlan, PlannedWindow, loadPlan, savePlan, splitWindow, windowDays, dateRange, toGoogleDate,
+  quotaRemaining, recordQuery, exhaustQuota,
+} from './google-plan';
+import { DiscoveredURL } from './types';
+import { extractRedditPostId } from './urls';
+import { discoveredKey, loadDiscoveredKeys, saveDiscoveredURL } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
 
 config();
 
 const GOOGLE_API_KEY = process.env.GOOGLE_CUSTOM_SEARCH_KEY!;
 const GOOGLE_CX = process.env.GOOGLE_CUSTOM_SEARCH_CX!;
 
-// Keywords for discovery
-const SEARCH_QUERIES = [
-  '"claude code" codex site:reddit.com',
-];
+// Keywords for discovery come from the study definition
+const STUDY = loadStudy();
+const SEARCH_QUERIES = STUDY.searchQueries;
+const MONTHS_BACK = STUDY.monthsBack;
+
+// Google never returns more than 100 results (10 pages of 10) per query
+const RESULT_CAP = 100;
 
 interface GoogleSearchResult {
   link: string;
@@ -17,70 +30,34 @@ interface GoogleSearchResult {
   snippet: string;
 }
 
-interface DiscoveredURL {
-  url: string;
-  title: string;
-  snippet: string;
-  discoveredAt: number;
-  query: string;
-}
-
-const DISCOVERED_URLS_FILE = 'discovered_urls.jsonl';
-
-/**
- * Load previously discovered URLs to avoid duplicates
- */
-function loadDiscoveredURLs(): Set<string> {
-  if (!existsSync(DISCOVERED_URLS_FILE)) {
-    return new Set();
-  }
-
-  const lines = readFileSync(DISCOVERED_URLS_FILE, 'utf-8').split('\n').filter(l => l.trim());
-  const urls = new Set<string>();
-
-  for (const line of lines) {
-    try {
-      const record = JSON.parse(line);
-      urls.add(record.url);
-    } catch (e) {
-      // Skip malformed lines
-    }
-  }
-
-  return urls;
-}
-
-/**
- * Save discovered URL to JSONL file
- */
-function saveDiscoveredURL(record: DiscoveredURL) {
-  const line = JSON.stringify(record) + '\n';
-  writeFileSync(DISCOVERED_URLS_FILE, line, { flag: 'a' });
-}
-
-/**
- * Extract Reddit post ID from URL
- */
-function extractRedditPostId(url: string): string | null {
-  const match = url.match(/reddit\.com\/r\/\w+\/comments\/(\w+)/);
-  return match ? match[1] : null;
-}
+const STORAGE = openStorage(STUDY);
 
 /**
  * Fetch results from Google Custom Search API
  */
-async function searchGoogle(query: string, startIndex: number = 1): Promise<{ results: GoogleSearchResult[], totalResults: number }> {
+async function searchGoogle(
+  query: string,
+  startIndex: number = 1,
+  sort?: string
+): Promise<{ results: GoogleSearchResult[], totalResults: number }> {
   const url = new URL('https://www.googleapis.com/customsearch/v1');
   url.searchParams.set('key', GOOGLE_API_KEY);
   url.searchParams.set('cx', GOOGLE_CX);
   url.searchParams.set('q', query);
   url.searchParams.set('num', '10');
   url.searchParams.set('start', startIndex.toString());
+  if (sort) {
+    url.searchParams.set('sort', sort);
+  }
 
   console.log(`  Fetching results ${startIndex}-${startIndex + 9}...`);
 
   const response = await fetch(url.toString());
 
+  if (response.status === 429) {
+    exhaustQuota();
+  }
+
   if (!response.ok) {
     const error = await response.text();
     throw new Error(`Google API error: ${response.status} - ${error}`);
@@ -106,87 +83,150 @@ async function searchGoogle(query: string, startIndex: number = 1): Promise<{ re
 }
 
 /**
- * Discover Reddit threads using Google Custom Search
+ * Plan one date window per search query, from its checkpoint (or the
+ * study's time window) up to today
  */
-async function discoverThreads(
-  query: string,
-  maxResults: number = 100
-): Promise<DiscoveredURL[]> {
-  console.log(`\nDiscovering threads for: ${query}`);
+function planQueries(): GooglePlan {
+  const startedAt = Date.now();
+
+  const cutoffDate = new Date(startedAt);
+  cutoffDate.setMonth(cutoffDate.getMonth() - MONTHS_BACK);
+  const cutoffTimestamp = Math.floor(cutoffDate.getTime() / 1000);
+
+  const windows: PlannedWindow[] = SEARCH_QUERIES.map(query => {
+    const checkpoint = loadCheckpoint(STUDY, `google:${query}`);
+    const floor = crawlFloor(cutoffTimestamp, checkpoint);
+    return {
+      query,
+      start: toGoogleDate(floor),
+      end: toGoogleDate(startedAt / 1000),
+      startIndex: 1,
+    };
+  });
+
+  return { startedAt, windows };
+}
 
-  const existingUrls = loadDiscoveredURLs();
+/**
+ * Save one search result if it is a new Reddit post
+ */
+function considerResult(result: GoogleSearchResult, query: string, existingKeys: Set<string>): DiscoveredURL | null {
+  // Only process Reddit URLs
+  if (!/reddit\.com|redd\.it/.test(result.link)) return null;
+
+  // Skip if already discovered
+  if (existingKeys.has(discoveredKey(result.link))) {
+    console.log(`  ↩ Already seen: ${result.title}`);
+    return null;
+  }
+
+  // Check if it's a valid post URL (not subreddit homepage, user page, etc.)
+  const postId = extractRedditPostId(result.link);
+  if (!postId) {
+    console.log(`  ⊗ Skipping non-post URL: ${result.link}`);
+    return null;
+  }
+
+  const record: DiscoveredURL = {
+    url: result.link,
+    title: result.title,
+    snippet: result.snippet,
+    discoveredAt: Date.now(),
+    query: query,
+  };
+
+  existingKeys.add(discoveredKey(result.link));
+  saveDiscoveredURL(STORAGE, record);
+
+  console.log(`  ✓ ${result.title}`);
+  return record;
+}
+
+/**
+ * Work through the plan front to back until it is done or today's quota
+ * runs out. Windows over the 100-result cap are split in half and re-queued;
+ * the plan is saved after every call so an interrupted run can resume.
+ */
+async function discoverThreads(plan: GooglePlan): Promise<{ discovered: DiscoveredURL[]; finished: boolean }> {
+  const existingKeys = loadDiscoveredKeys(STORAGE);
   const discovered: DiscoveredURL[] = [];
-  let startIndex = 1;
-  let totalAvailable = 0;
 
-  while (discovered.length < maxResults && startIndex <= 91) {
-    const { results, totalResults } = await searchGoogle(query, startIndex);
+  while (plan.windows.length > 0) {
+    if (quotaRemaining() === 0) {
+      return { discovered, finished: false };
+    }
 
-    // Log total on first call
-    if (startIndex === 1) {
-      totalAvailable = totalResults;
-      console.log(`  Google reports ${totalResults} total results available`);
-      if (totalResults > 100) {
-        console.log(`  ⚠️  Can only retrieve first 100 due to API limits`);
-      }
+    const window = plan.windows[0];
+
+    if (window.startIndex === 1) {
+      console.log(`\nDiscovering threads for: ${window.query} (${window.start}-${window.end})`);
     }
 
-    if (results.length === 0) {
-      console.log('  No more results');
-      break;
+    let response: { results: GoogleSearchResult[], totalResults: number };
+    try {
+      response = await searchGoogle(window.query, window.startIndex, dateRange(window));
+      recordQuery();
+    } catch (error: any) {
+      console.error(`  ✗ ${error.message}`);
+      return { discovered, finished: false };
     }
 
-    for (const result of results) {
-      // Only process Reddit URLs
-      if (!result.link.includes('reddit.com')) continue;
+    const { results, totalResults } = response;
+    plan.windows.shift();
 
-      // Skip if already discovered
-      if (existingUrls.has(result.link)) {
-        console.log(`  ↩ Already seen: ${result.title}`);
+    if (window.startIndex === 1) {
+      console.log(`  Google reports ${totalResults} total results available`);
+
+      // Too many results for one query: split the window and retry both halves
+      if (totalResults > RESULT_CAP && windowDays(window) > 1) {
+        const [newer, older] = splitWindow(window);
+        console.log(`  ✂️  Splitting into ${newer.start}-${newer.end} and ${older.start}-${older.end}`);
+        plan.windows.unshift(newer, older);
+        savePlan(STUDY, plan);
         continue;
       }
 
-      // Check if it's a valid post URL (not subreddit homepage, user page, etc.)
-      const postId = extractRedditPostId(result.link);
-      if (!postId) {
-        console.log(`  ⊗ Skipping non-post URL: ${result.link}`);
-        continue;
+      if (totalResults > RESULT_CAP) {
+        console.log(`  ⚠️  Single-day window over the cap (${totalResults - RESULT_CAP}+ results unavailable)`);
       }
+    }
 
-      const record: DiscoveredURL = {
-        url: result.link,
-        title: result.title,
-        snippet: result.snippet,
-        discoveredAt: Date.now(),
-        query: query,
-      };
+    for (const result of results) {
+      const record = considerResult(result, window.query, existingKeys);
+      if (record) discovered.push(record);
+    }
 
-      discovered.push(record);
-      existingUrls.add(result.link);
-      saveDiscoveredURL(record);
+    // Queue the next page while there are more results under the cap
+    const nextIndex = window.startIndex + 10;
+    if (results.length === 10 && nextIndex <= Math.min(totalResults, RESULT_CAP)) {
+      plan.windows.unshift({ ...window, startIndex: nextIndex });
+    }
 
-      console.log(`  ✓ ${result.title}`);
+    // A query's checkpoint advances once all of its windows are done
+    if (!plan.windows.some(w => w.query === window.query)) {
+      const first = discovered.find(d => d.query === window.query);
+      saveCheckpoint(STUDY, `google:${window.query}`, {
+        newestId: first ? extractRedditPostId(first.url)! : '',
+        newestCreated: Math.floor(plan.startedAt / 1000),
+        updatedAt: plan.startedAt,
+      });
     }
 
-    startIndex += 10;
+    savePlan(STUDY, plan);
 
-    // Rate limiting - Google allows ~100 queries per day on free tier
+    // Rate limiting
     await new Promise(resolve => setTimeout(resolve, 1000));
   }
 
-  // Final summary
-  if (discovered.length >= 100 && totalAvailable > 100) {
-    console.log(`  ⚠️  Hit 100-result cap (${totalAvailable - 100}+ results unavailable)`);
-    console.log(`  💡 Consider using time-based queries to get more results`);
-  }
-
-  return discovered;
+  return { discovered, finished: true };
 }
 
 async function main() {
-  console.log('🔍 Starting thread discovery via Google Custom Search...\n');
+  console.log(`🔍 Starting thread discovery via Google Custom Search (${STUDY.title})...\n`);
   console.log(`API Key: ${GOOGLE_API_KEY ? '✓ Set' : '✗ Missing'}`);
-  console.log(`Search Engine ID: ${GOOGLE_CX ? '✓ Set' : '✗ Missing'}\n`);
+  console.log(`Search Engine ID: ${GOOGLE_CX ? '✓ Set' : '✗ Missing'}`);
+  console.log(`Mode: ${describeCrawlMode()}`);
+  console.log(`Quota: ${quotaRemaining()} queries left today\n`);
 
   if (!GOOGLE_API_KEY || !GOOGLE_CX) {
     console.error('❌ Missing required environment variables:');
@@ -195,16 +235,33 @@ async function main() {
     process.exit(1);
   }
 
-  let totalDiscovered = 0;
-
-  for (const query of SEARCH_QUERIES) {
-    const discovered = await discoverThreads(query, 100);
-    totalDiscovered += discovered.length;
-    console.log(`  Found ${discovered.length} new threads\n`);
+  // Resume yesterday's unfinished plan before planning a new one
+  let plan = loadPlan(STUDY);
+  if (plan) {
+    console.log(`↪ Resuming plan from ${new Date(plan.startedAt).toISOString()} (${plan.windows.length} windows pending)`);
+  } else {
+    plan = planQueries();
+    savePlan(STUDY, plan);
   }
 
-  console.log(`\n✓ Discovery complete! Found ${totalDiscovered} new threads`);
-  console.log(`  Saved to: ${DISCOVERED_URLS_FILE}`);
+  const lineage = startStage(STUDY, STORAGE, 'discover:google', ['discovered'], {
+    queries: SEARCH_QUERIES,
+    monthsBack: MONTHS_BACK,
+    mode: describeCrawlMode(),
+    planStartedAt: plan.startedAt,
+  });
+
+  const { discovered, finished } = await discoverThreads(plan);
+
+  lineage.finish(['discovered']);
+
+  console.log(`\n✓ Discovery ${finished ? 'complete' : 'paused'}! Found ${discovered.length} new threads`);
+  console.log(`  Saved to: ${STORAGE.location('discovered')}`);
+
+  if (!finished) {
+    console.log(`  ⏸  ${plan.windows.length} windows pending, ${quotaRemaining()} queries left today`);
+    console.log(`  💡 Run again (e.g. tomorrow) to resume where this run stopped`);
+  }
 }
 
 main().catch(console.error);
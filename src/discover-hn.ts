@@ -0,0 +1,188 @@
+import { config } from 'dotenv';
+import { loadStudy } from './study';
+import { mentionsBothTools } from './mentions';
+import { cassetteMode, cassetteNow, fetchJson } from './cassette';
+import { HN_API_URL, HN_CASSETTE, htmlToText } from './hn';
+import { DiscoveredURL } from './types';
+import { discoveredKey, loadDiscoveredKeys, saveDiscoveredURL } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+
+config();
+
+/**
+ * Discover Hacker News threads via the Algolia HN Search API.
+ * Stories are matched on title/text; matching comments pull in their parent story,
+ * since many comparisons happen deep in threads about something else.
+ *
+ * Offline: `npm run discover:hn -- --replay` serves cassettes/hn.json
+ */
+
+const STUDY = loadStudy();
+const MONTHS_BACK = STUDY.monthsBack;
+
+const HITS_PER_PAGE = 100;
+
+// Source tag written to DiscoveredURL.query
+const SOURCE_TAG = 'hn_algolia';
+
+const STORAGE = openStorage(STUDY);
+
+interface AlgoliaHit {
+  objectID: string;
+  title?: string | null;
+  story_title?: string | null;
+  story_text?: string | null;
+  comment_text?: string | null;
+  story_id?: number | null;
+  points?: number | null;
+  created_at_i: number;
+}
+
+interface AlgoliaSearchResponse {
+  hits: AlgoliaHit[];
+  nbHits: number;
+  page: number;
+  nbPages: number;
+}
+
+/**
+ * Fetch one page of search results (newest first)
+ */
+async function searchHN(query: string, tags: 'story' | 'comment', page: number): Promise<AlgoliaSearchResponse> {
+  const url = new URL(`${HN_API_URL}/search_by_date`);
+  url.searchParams.set('query', query);
+  url.searchParams.set('tags', tags);
+  url.searchParams.set('hitsPerPage', HITS_PER_PAGE.toString());
+  url.searchParams.set('page', page.toString());
+
+  return fetchJson<AlgoliaSearchResponse>(HN_CASSETTE, url.toString());
+}
+
+/**
+ * Discover threads for one query, searching both stories and comments
+ */
+async function discoverFromQuery(query: string, tags: 'story' | 'comment'): Promise<DiscoveredURL[]> {
+  console.log(`\n📡 Searching HN ${tags === 'story' ? 'stories' : 'comments'} for: ${query}`);
+
+  // Calculate cutoff date
+  const cutoffDate = new Date(cassetteNow(HN_CASSETTE));
+  cutoffDate.setMonth(cutoffDate.getMonth() - MONTHS_BACK);
+  const cutoffTimestamp = Math.floor(cutoffDate.getTime() / 1000);
+
+  const existingKeys = loadDiscoveredKeys(STORAGE);
+  const discovered: DiscoveredURL[] = [];
+
+  let page = 0;
+  let totalFetched = 0;
+  let reachedCutoff = false;
+
+  while (!reachedCutoff) {
+    try {
+      const response = await searchHN(query, tags, page);
+
+      if (response.hits.length === 0) {
+        console.log(`  ✓ Reached end of results`);
+        break;
+      }
+
+      totalFetched += response.hits.length;
+
+      for (const hit of response.hits) {
+        if (hit.created_at_i < cutoffTimestamp) {
+          reachedCutoff = true;
+          break;
+        }
+
+        // Comments point at their story; stories are their own thread
+        const storyId = tags === 'comment' ? hit.story_id : Number(hit.objectID);
+        const title = (tags === 'comment' ? hit.story_title : hit.title) || '';
+        const text = htmlToText(tags === 'comment' ? hit.comment_text : hit.story_text);
+        if (!storyId) continue;
+
+        const permalink = `https://news.ycombinator.com/item?id=${storyId}`;
+
+        if (existingKeys.has(discoveredKey(permalink))) {
+          continue;
+        }
+
+        if (!mentionsBothTools(`${title} ${text}`, STUDY)) {
+          continue;
+        }
+
+        const record: DiscoveredURL = {
+          url: permalink,
+          title,
+          snippet: text.slice(0, 200),
+          discoveredAt: Date.now(),
+          query: SOURCE_TAG,
+          subreddit: 'hackernews',
+          score: tags === 'story' ? hit.points ?? 0 : 0,
+          created: hit.created_at_i,
+        };
+
+        discovered.push(record);
+        existingKeys.add(discoveredKey(permalink));
+        saveDiscoveredURL(STORAGE, record);
+
+        console.log(`  ✓ ${title}${tags === 'story' ? ` (${record.score} ↑)` : ' (via comment)'}`);
+      }
+
+      console.log(`  Progress: ${totalFetched} fetched, ${discovered.length} matched`);
+
+      page++;
+      if (page >= response.nbPages) {
+        console.log(`  ✓ Reached end of results`);
+        break;
+      }
+
+      // Rate limiting (Algolia allows 10k requests/hour)
+      if (cassetteMode() !== 'replay') {
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+
+    } catch (error: any) {
+      console.error(`  ✗ Error searching HN: ${error.message}`);
+      break;
+    }
+  }
+
+  return discovered;
+}
+
+async function main() {
+  console.log(`🔍 Hacker News Discovery: Finding ${STUDY.title} discussions\n`);
+  console.log(`Queries: ${STUDY.hnQueries.join(', ')}`);
+  console.log(`Time range: Last ${MONTHS_BACK} months`);
+  if (cassetteMode() !== 'live') {
+    console.log(`Cassette: ${cassetteMode()} (cassettes/${HN_CASSETTE}.json)`);
+  }
+
+  const lineage = startStage(STUDY, STORAGE, 'discover:hn', ['discovered'], {
+    queries: STUDY.hnQueries,
+    monthsBack: MONTHS_BACK,
+    cassette: cassetteMode(),
+  });
+
+  const startTime = Date.now();
+  let totalDiscovered = 0;
+
+  for (const query of STUDY.hnQueries) {
+    for (const tags of ['story', 'comment'] as const) {
+      const discovered = await discoverFromQuery(query, tags);
+      totalDiscovered += discovered.length;
+    }
+  }
+
+  lineage.finish(['discovered']);
+
+  const duration = Math.round((Date.now() - startTime) / 1000);
+
+  console.log(`\n✓ Discovery complete!`);
+  console.log(`  Time: ${duration}s`);
+  console.log(`  Found: ${totalDiscovered} new matching threads`);
+  console.log(`  Saved to: ${STORAGE.location('discovered')}`);
+  console.log(`\nNext step: Run "npm run scrape:hn" to fetch full threads + comments`);
+}
+
+main().catch(console.error);
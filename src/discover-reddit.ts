@@ -1,162 +1,153 @@
-import Snoowrap from 'snoowrap';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
 import { config } from 'dotenv';
+import { loadStudy } from './study';
+import { mentionsBothTools } from './mentions';
+import { getFlag } from './args';
+import { Checkpoint, loadCheckpoint, saveCheckpoint, crawlFloor, describeCrawlMode } from './checkpoints';
+import { DiscoveredURL, DiscoveryStrategy } from './types';
+import { discoveredKey, loadDiscoveredKeys, saveDiscoveredURL } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+import { createRedditClient, redditRequestCount, describeRateLimit, redditBackend, RedditApiPost, SearchTime, SearchSort, REDDIT_CASSETTE } from './reddit';
+import { cassetteMode, cassetteNow } from './cassette';
 
 config();
 
-const reddit = new Snoowrap({
-  userAgent: process.env.REDDIT_USER_AGENT || 'lois-content-research/1.0.0',
-  clientId: process.env.REDDIT_CLIENT_ID!,
-  clientSecret: process.env.REDDIT_CLIENT_SECRET!,
-  username: process.env.REDDIT_USERNAME!,
-  password: process.env.REDDIT_PASSWORD!,
-});
+const reddit = createRedditClient();
 
-// Coding-focused subreddits for Claude Code vs Codex analysis
-const SUBREDDITS = ['ClaudeCode', 'codex', 'ChatGPTCoding'];
+// Subreddits, time range and tool aliases come from the study definition
+const STUDY = loadStudy();
+const SUBREDDITS = STUDY.subreddits;
+const MONTHS_BACK = STUDY.monthsBack;
 
-// Time range: 2.5 months back
-const MONTHS_BACK = 2.5;
-
-// Keywords to filter for (must contain ALL of these in post title/selftext)
-const REQUIRED_KEYWORDS = ['claude code', 'codex'];
+// Discovery strategies: --strategy listing|search (default: both, merged)
+const STRATEGY_FLAG = getFlag('strategy');
+const STRATEGIES: DiscoveryStrategy[] = STRATEGY_FLAG
+  ? [STRATEGY_FLAG as DiscoveryStrategy]
+  : ['listing', 'search'];
 
 // Output file
-const DISCOVERED_URLS_FILE = 'discovered_urls.jsonl';
-
-interface DiscoveredURL {
-  url: string;
-  title: string;
-  snippet: string;
-  discoveredAt: number;
-  query: string;
-  subreddit: string;
-  score: number;
-  created: number;
-}
+const STORAGE = openStorage(STUDY);
 
 /**
- * Load previously discovered URLs to avoid duplicates
+ * Check if text mentions both tools of the study
  */
-function loadDiscoveredURLs(): Set<string> {
-  if (!existsSync(DISCOVERED_URLS_FILE)) {
-    return new Set();
-  }
+function matchesKeywords(text: string): boolean {
+  return mentionsBothTools(text, STUDY);
+}
 
-  const lines = readFileSync(DISCOVERED_URLS_FILE, 'utf-8').split('\n').filter(l => l.trim());
-  const urls = new Set<string>();
+interface CrawlResult {
+  matches: Map<string, DiscoveredURL>;
+  scanned: number;
+  newestPost: Checkpoint | null;  // newest post scanned, becomes the next checkpoint
+  complete: boolean;              // crawled down to the floor without errors
+}
 
-  for (const line of lines) {
-    try {
-      const record = JSON.parse(line);
-      urls.add(record.url);
-    } catch (e) {
-      // Skip malformed lines
-    }
-  }
+const EMPTY_CRAWL: CrawlResult = { matches: new Map(), scanned: 0, newestPost: null, complete: false };
 
-  return urls;
+interface Coverage {
+  subreddit: string;
+  listingScanned: number;
+  listingReachedCutoff: boolean;
+  estimatedUnreachable: number;  // posts between the listing ceiling and the floor
+  searchScanned: number;
+  searchOnlyMatches: number;     // matches the listing crawl could not see
 }
 
 /**
- * Save discovered URL to JSONL file
+ * Build a DiscoveredURL if the post is new and mentions both tools
  */
-function saveDiscoveredURL(record: DiscoveredURL) {
-  const line = JSON.stringify(record) + '\n';
-  writeFileSync(DISCOVERED_URLS_FILE, line, { flag: 'a' });
+function matchPost(post: RedditApiPost, subredditName: string, existingKeys: Set<string>): DiscoveredURL | null {
+  const permalink = `https://reddit.com${post.permalink}`;
+
+  // Skip if already discovered
+  if (existingKeys.has(discoveredKey(permalink))) {
+    return null;
+  }
+
+  // Check if post matches our keywords
+  const searchText = `${post.title} ${post.selftext || ''}`;
+  if (!matchesKeywords(searchText)) {
+    return null;
+  }
+
+  return {
+    url: permalink,
+    title: post.title,
+    snippet: post.selftext ? post.selftext.slice(0, 200) : '',
+    discoveredAt: Date.now(),
+    query: 'reddit_api',
+    subreddit: subredditName,
+    score: post.score,
+    created: post.created_utc,
+  };
 }
 
 /**
- * Check if text contains all required keywords
+ * Track the newest post a crawl has scanned
  */
-function matchesKeywords(text: string): boolean {
-  const normalized = text.toLowerCase();
-  return REQUIRED_KEYWORDS.every(keyword => normalized.includes(keyword));
+function newerPost(current: Checkpoint | null, post: RedditApiPost): Checkpoint {
+  if (current && current.newestCreated >= post.created_utc) {
+    return current;
+  }
+  return { newestId: post.name, newestCreated: post.created_utc, updatedAt: Date.now() };
 }
 
 /**
- * Discover posts from a single subreddit
+ * Page through r/<sub>/new back to the floor (cutoff or checkpoint). Reddit
+ * stops serving listings after ~1000 posts, so busy subs may end before the
+ * floor is reached.
  */
-async function discoverFromSubreddit(subredditName: string): Promise<DiscoveredURL[]> {
-  console.log(`\n📡 Fetching posts from r/${subredditName}...`);
-
-  // Calculate cutoff date
-  const cutoffDate = new Date();
-  cutoffDate.setMonth(cutoffDate.getMonth() - MONTHS_BACK);
-  const cutoffTimestamp = Math.floor(cutoffDate.getTime() / 1000);
-
-  const existingUrls = loadDiscoveredURLs();
-  const discovered: DiscoveredURL[] = [];
-
-  const subreddit = reddit.getSubreddit(subredditName);
+async function crawlListing(
+  subredditName: string,
+  floorTimestamp: number,
+  checkpoint: Checkpoint | null,
+  existingKeys: Set<string>
+): Promise<CrawlResult & { reachedCutoff: boolean; newest: number; oldest: number }> {
+  const matches = new Map<string, DiscoveredURL>();
 
   // Fetch posts in batches
   let after: string | undefined = undefined;
-  let totalFetched = 0;
-  let totalMatched = 0;
+  let scanned = 0;
   let reachedCutoff = false;
+  let complete = false;
+  let newestPost: Checkpoint | null = null;
+  let newest = 0;
+  let oldest = 0;
 
   while (!reachedCutoff) {
     try {
       // Fetch batch of 100 posts
-      const listing = await subreddit.getNew({ limit: 100, after });
+      const listing = await reddit.listNew(subredditName, after);
 
       if (listing.length === 0) {
-        console.log(`  ✓ Reached end of subreddit`);
+        console.log(`  ✓ Reached end of listing`);
+        complete = true;
         break;
       }
 
-      totalFetched += listing.length;
-
       for (const post of listing) {
-        // Check if we've gone past our time window
-        if (post.created_utc < cutoffTimestamp) {
+        // Check if we've gone past our time window or the last run's newest post
+        if (post.created_utc < floorTimestamp || post.name === checkpoint?.newestId) {
           reachedCutoff = true;
+          complete = true;
           break;
         }
 
-        const permalink = `https://reddit.com${post.permalink}`;
-
-        // Skip if already discovered
-        if (existingUrls.has(permalink)) {
-          continue;
-        }
+        scanned++;
+        newestPost = newerPost(newestPost, post);
+        newest = Math.max(newest, post.created_utc);
+        oldest = oldest === 0 ? post.created_utc : Math.min(oldest, post.created_utc);
 
-        // Check if post matches our keywords
-        const searchText = `${post.title} ${post.selftext || ''}`;
-        if (!matchesKeywords(searchText)) {
-          continue;
+        const record = matchPost(post, subredditName, existingKeys);
+        if (record) {
+          matches.set(record.url, record);
         }
-
-        // Found a match!
-        const record: DiscoveredURL = {
-          url: permalink,
-          title: post.title,
-          snippet: post.selftext ? post.selftext.slice(0, 200) : '',
-          discoveredAt: Date.now(),
-          query: 'reddit_api',
-          subreddit: subredditName,
-          score: post.score,
-          created: post.created_utc,
-        };
-
-        discovered.push(record);
-        existingUrls.add(permalink);
-        saveDiscoveredURL(record);
-        totalMatched++;
-
-        console.log(`  ✓ ${post.title} (${post.score} ↑)`);
       }
 
       // Set pagination token for next batch
-      if (listing.length > 0) {
-        after = listing[listing.length - 1].name;
-      }
-
-      console.log(`  Progress: ${totalFetched} fetched, ${totalMatched} matched`);
+      after = listing[listing.length - 1].name;
 
-      // Rate limiting
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      console.log(`  Listing: ${scanned} scanned, ${matches.size} matched`);
 
     } catch (error: any) {
       console.error(`  ✗ Error fetching from r/${subredditName}: ${error.message}`);
@@ -164,27 +155,235 @@ async function discoverFromSubreddit(subredditName: string): Promise<DiscoveredU
     }
   }
 
-  const cutoffDateStr = cutoffDate.toISOString().split('T')[0];
-  console.log(`  ✓ Complete: ${totalFetched} posts scanned (back to ${cutoffDateStr})`);
-  console.log(`  ✓ Found: ${totalMatched} matching posts`);
+  return { matches, scanned, newestPost, complete, reachedCutoff, newest, oldest };
+}
 
-  return discovered;
+/**
+ * Reddit search time filter for the window: the narrowest one that covers it.
+ * The filters are nested (the week is the start of the month, and so on), so
+ * running a narrower one as well would only return the same posts again.
+ */
+function searchTime(windowDays: number): SearchTime {
+  const filters: Array<{ time: SearchTime; days: number }> = [
+    { time: 'week', days: 7 },
+    { time: 'month', days: 31 },
+    { time: 'year', days: 365 },
+  ];
+  return filters.find(filter => filter.days >= windowDays)?.time || 'all';
+}
+
+// Each search is capped like a listing, so a sort=new search of a busy
+// subreddit can stop short of the cutoff. Other orders reach a different
+// part of the capped results; they run only when the newest-first pass was cut off.
+const FALLBACK_SORTS: SearchSort[] = ['top', 'relevance'];
+
+/**
+ * Keyword queries: any alias of the first tool AND any alias of the second.
+ * Case-sensitive aliases ("CC") are left out since Reddit search ignores
+ * case; results are re-checked with the mention detector anyway.
+ */
+function searchQueries(): string[] {
+  const terms = STUDY.tools.map(tool => `(${tool.aliases.map(alias => `"${alias}"`).join(' OR ')})`);
+  return [terms.join(' ')];
+}
+
+/**
+ * Run keyword searches restricted to the subreddit: newest first back to the
+ * floor, then the fallback sorts if that pass was cut off before reaching it
+ */
+async function crawlSearch(
+  subredditName: string,
+  floorTimestamp: number,
+  existingKeys: Set<string>
+): Promise<CrawlResult> {
+  const matches = new Map<string, DiscoveredURL>();
+  const seen = new Set<string>();
+  const time = searchTime((cassetteNow(REDDIT_CASSETTE) / 1000 - floorTimestamp) / 86400);
+  const sorts: SearchSort[] = [];
+  let scanned = 0;
+  let complete = true;
+  let newestPost: Checkpoint | null = null;
+
+  for (const query of searchQueries()) {
+    for (const sort of ['new', ...FALLBACK_SORTS] as SearchSort[]) {
+      if (!sorts.includes(sort)) sorts.push(sort);
+      let after: string | undefined = undefined;
+      let fetched = 0;
+      let reachedCutoff = false;
+
+      while (true) {
+        try {
+          const results = await reddit.search(subredditName, query, sort, time, after);
+
+          if (results.length === 0) break;
+          fetched += results.length;
+
+          for (const post of results) {
+            if (post.created_utc < floorTimestamp) {
+              // Only sort=new is in date order; other orders just skip older posts
+              if (sort === 'new') {
+                reachedCutoff = true;
+                break;
+              }
+              continue;
+            }
+
+            if (!seen.has(post.name)) {
+              seen.add(post.name);
+              scanned++;
+            }
+            newestPost = newerPost(newestPost, post);
+
+            const record = matchPost(post, subredditName, existingKeys);
+            if (record) {
+              matches.set(record.url, record);
+            }
+          }
+
+          after = results[results.length - 1].name;
+
+          if (reachedCutoff || results.length < 100) break;
+        } catch (error: any) {
+          console.error(`  ✗ Error searching r/${subredditName} for ${query} (${sort}, ${time}): ${error.message}`);
+          complete = false;
+          break;
+        }
+      }
+
+      // Newest first saw every match if it reached the floor or never filled a page
+      if (sort === 'new' && (reachedCutoff || fetched < 100)) break;
+    }
+  }
+
+  console.log(`  Search: ${scanned} scanned, ${matches.size} matched (${searchQueries().length} queries × ${time}, sort ${sorts.join('/')})`);
+
+  return { matches, scanned, newestPost, complete };
+}
+
+/**
+ * Discover posts from a single subreddit, merging the listing crawl with keyword search
+ */
+async function discoverFromSubreddit(
+  subredditName: string,
+  strategies: DiscoveryStrategy[]
+): Promise<{ discovered: DiscoveredURL[]; coverage: Coverage }> {
+  console.log(`\n📡 Fetching posts from r/${subredditName}...`);
+
+  // Calculate cutoff date (replays use the time the cassette was recorded)
+  const cutoffDate = new Date(cassetteNow(REDDIT_CASSETTE));
+  cutoffDate.setMonth(cutoffDate.getMonth() - MONTHS_BACK);
+  const cutoffTimestamp = Math.floor(cutoffDate.getTime() / 1000);
+
+  const existingKeys = loadDiscoveredKeys(STORAGE);
+
+  // Each strategy stops at its own checkpoint from the previous run
+  const listingKey = `reddit:${subredditName}:listing`;
+  const searchKey = `reddit:${subredditName}:search`;
+  const listingCheckpoint = loadCheckpoint(STUDY, listingKey);
+  const searchCheckpoint = loadCheckpoint(STUDY, searchKey);
+  const listingFloor = crawlFloor(cutoffTimestamp, listingCheckpoint);
+  const searchFloor = crawlFloor(cutoffTimestamp, searchCheckpoint);
+
+  for (const [name, checkpoint] of [['Listing', listingCheckpoint], ['Search', searchCheckpoint]] as const) {
+    if (checkpoint) {
+      const dateStr = new Date(checkpoint.newestCreated * 1000).toISOString().split('T')[0];
+      console.log(`  ↪ ${name} checkpoint: ${checkpoint.newestId} (${dateStr})`);
+    }
+  }
+
+  const listing = strategies.includes('listing')
+    ? await crawlListing(subredditName, listingFloor, listingCheckpoint, existingKeys)
+    : { ...EMPTY_CRAWL, reachedCutoff: false, newest: 0, oldest: 0 };
+  const search = strategies.includes('search')
+    ? await crawlSearch(subredditName, searchFloor, existingKeys)
+    : EMPTY_CRAWL;
+
+  // Merge, recording which strategies found each post
+  const discovered: DiscoveredURL[] = [];
+  const urls = new Set([...listing.matches.keys(), ...search.matches.keys()]);
+
+  for (const url of urls) {
+    const record = { ...(listing.matches.get(url) || search.matches.get(url))! };
+    record.strategies = (['listing', 'search'] as const).filter(s =>
+      (s === 'listing' ? listing.matches : search.matches).has(url)
+    );
+
+    discovered.push(record);
+    existingKeys.add(discoveredKey(url));
+    saveDiscoveredURL(STORAGE, record);
+
+    console.log(`  ✓ ${record.title} (${record.score} ↑) [${record.strategies.join('+')}]`);
+  }
+
+  // Advance checkpoints only for crawls that reached their floor
+  if (listing.complete && listing.newestPost) {
+    saveCheckpoint(STUDY, listingKey, listing.newestPost);
+  }
+  if (search.complete && search.newestPost) {
+    saveCheckpoint(STUDY, searchKey, search.newestPost);
+  }
+
+  // Estimate what the listing could not reach from its posting rate
+  let estimatedUnreachable = 0;
+  if (strategies.includes('listing') && !listing.reachedCutoff && listing.newest > listing.oldest) {
+    const postsPerSecond = listing.scanned / (listing.newest - listing.oldest);
+    estimatedUnreachable = Math.round(postsPerSecond * Math.max(0, listing.oldest - listingFloor));
+  }
+
+  const coverage: Coverage = {
+    subreddit: subredditName,
+    listingScanned: listing.scanned,
+    listingReachedCutoff: listing.reachedCutoff,
+    estimatedUnreachable,
+    searchScanned: search.scanned,
+    searchOnlyMatches: [...search.matches.keys()].filter(url => !listing.matches.has(url)).length,
+  };
+
+  const floorDateStr = new Date(Math.min(listingFloor, searchFloor) * 1000).toISOString().split('T')[0];
+  console.log(`  ✓ Complete: ${listing.scanned + search.scanned} posts scanned (back to ${floorDateStr})`);
+  if (strategies.includes('listing') && !listing.reachedCutoff) {
+    const oldestStr = new Date(listing.oldest * 1000).toISOString().split('T')[0];
+    console.log(`  ⚠️  Listing ended at ${oldestStr} before the cutoff (~${estimatedUnreachable} posts unreachable)`);
+  }
+  console.log(`  ✓ Found: ${discovered.length} matching posts (${coverage.searchOnlyMatches} only via search)`);
+
+  return { discovered, coverage };
 }
 
 async function main() {
-  console.log('🔍 Reddit Discovery: Finding Claude Code vs Codex discussions\n');
+  console.log(`🔍 Reddit Discovery: Finding ${STUDY.title} discussions\n`);
   console.log(`Subreddits: ${SUBREDDITS.join(', ')}`);
   console.log(`Time range: Last ${MONTHS_BACK} months`);
-  console.log(`Keywords: Posts must contain ALL of: ${REQUIRED_KEYWORDS.join(', ')}\n`);
+  console.log(`Keywords: Posts must mention ${STUDY.tools.map(t => `${t.name} (${t.aliases.join(' | ')})`).join(' AND ')}`);
+  console.log(`Strategies: ${STRATEGIES.join(' + ')}`);
+  console.log(`Mode: ${describeCrawlMode()}\n`);
+
+  if (STRATEGIES.some(s => s !== 'listing' && s !== 'search')) {
+    console.error(`❌ Unknown --strategy "${STRATEGY_FLAG}" (expected listing or search)`);
+    process.exit(1);
+  }
+
+  const lineage = startStage(STUDY, STORAGE, 'discover', ['discovered'], {
+    subreddits: SUBREDDITS,
+    monthsBack: MONTHS_BACK,
+    strategies: STRATEGIES,
+    mode: describeCrawlMode(),
+    backend: redditBackend(),
+    cassette: cassetteMode(),
+  });
 
   const startTime = Date.now();
   let totalDiscovered = 0;
+  const coverage: Coverage[] = [];
 
   for (const subreddit of SUBREDDITS) {
-    const discovered = await discoverFromSubreddit(subreddit);
-    totalDiscovered += discovered.length;
+    const result = await discoverFromSubreddit(subreddit, STRATEGIES);
+    totalDiscovered += result.discovered.length;
+    coverage.push(result.coverage);
   }
 
+  lineage.finish(['discovered']);
+
   const duration = Math.round((Date.now() - startTime) / 1000);
   const minutes = Math.floor(duration / 60);
   const seconds = duration % 60;
@@ -192,7 +391,17 @@ async function main() {
   console.log(`\n✓ Discovery complete!`);
   console.log(`  Time: ${minutes}m ${seconds}s`);
   console.log(`  Found: ${totalDiscovered} new matching posts`);
-  console.log(`  Saved to: ${DISCOVERED_URLS_FILE}`);
+  console.log(`  API calls: ${redditRequestCount()} (rate limit: ${describeRateLimit()})`);
+  console.log(`  Saved to: ${STORAGE.location('discovered')}`);
+
+  console.log(`\n📊 Estimated coverage:`);
+  for (const c of coverage) {
+    const listingStatus = c.listingReachedCutoff
+      ? 'reached cutoff'
+      : `hit listing ceiling, ~${c.estimatedUnreachable} posts unreachable`;
+    console.log(`  r/${c.subreddit}: ${c.listingScanned} listed (${listingStatus}), ${c.searchScanned} searched, ${c.searchOnlyMatches} matches only via search`);
+  }
+
   console.log(`\nNext step: Run "npm run scrape" to fetch full post data + comments`);
 }
 
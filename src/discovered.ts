@@ -0,0 +1,101 @@
+import { DiscoveredURL } from './types';
+import { Storage } from './storage';
+import { postKey } from './urls';
+
+/**
+ * Reading and writing discovered URLs, shared by every discovery
+ * source and scraper. Records are deduped on their canonical post key
+ * (see urls.ts), falling back to the raw URL for anything unrecognised.
+ */
+
+/**
+ * Dedupe key for a discovered URL
+ */
+export function discoveredKey(url: string): string {
+  return postKey(url) || url;
+}
+
+/**
+ * Every source/query that found a record (`queries` once merged, else `query`)
+ */
+export function discoveryQueries(record: DiscoveredURL): string[] {
+  return record.queries || [record.query];
+}
+
+// Pre-screen rejections below this confidence are still scraped
+const PRESCREEN_MIN_CONFIDENCE = parseFloat(process.env.PRESCREEN_MIN_CONFIDENCE || '0.7');
+
+/**
+ * Every stored record, duplicates included
+ */
+export function readDiscovered(storage: Storage): DiscoveredURL[] {
+  return storage.readDiscovered();
+}
+
+/**
+ * Collapse records for the same post into one, keeping the first record's
+ * fields and the provenance of all of them
+ */
+export function mergeDiscovered(records: DiscoveredURL[]): DiscoveredURL[] {
+  const merged = new Map<string, DiscoveredURL>();
+
+  for (const record of records) {
+    const key = discoveredKey(record.url);
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, { ...record });
+      continue;
+    }
+
+    const queries = [...new Set([...discoveryQueries(existing), ...discoveryQueries(record)])];
+    const strategies = [...new Set([...(existing.strategies || []), ...(record.strategies || [])])];
+
+    merged.set(key, {
+      ...record,
+      ...existing,
+      discoveredAt: Math.min(existing.discoveredAt, record.discoveredAt),
+      ...(queries.length > 1 ? { queries } : {}),
+      ...(strategies.length > 0 ? { strategies } : {}),
+    });
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Load discovered records, one per post
+ */
+export function loadDiscovered(storage: Storage): DiscoveredURL[] {
+  return mergeDiscovered(readDiscovered(storage));
+}
+
+/**
+ * Keys of every post already discovered, to avoid duplicates
+ */
+export function loadDiscoveredKeys(storage: Storage): Set<string> {
+  return new Set(readDiscovered(storage).map(record => discoveredKey(record.url)));
+}
+
+/**
+ * Save a newly discovered URL
+ */
+export function saveDiscoveredURL(storage: Storage, record: DiscoveredURL) {
+  storage.appendDiscovered(record);
+}
+
+/**
+ * Replace every stored record
+ */
+export function writeDiscovered(storage: Storage, records: DiscoveredURL[]) {
+  storage.writeDiscovered(records);
+}
+
+/**
+ * True if the pre-screen confidently judged the thread not to be a comparison
+ */
+export function prescreenRejected(record: DiscoveredURL): boolean {
+  return !!record.prescreen
+    && !record.prescreen.comparison
+    && record.prescreen.confidence >= PRESCREEN_MIN_CONFIDENCE;
+}
@@ -0,0 +1,95 @@
+import { readFileSync, writeFileSync, existsSync, renameSync, unlinkSync } from 'fs';
+import { Study, studyFile } from './study';
+import { postKey } from './urls';
+
+/**
+ * Dead-letter file for scrapes that failed for good: <dataDir>/scrape_failures.jsonl
+ * holds one record per thread with the last error, so failures don't silently
+ * shrink the dataset and `scrape --retry-failed` can replay them.
+ */
+
+export type FailureKind =
+  | 'transient'    // 5xx, 429, timeouts - still failing after all retries
+  | 'not_found'    // deleted post or unknown ID
+  | 'private'      // private or quarantined subreddit
+  | 'banned'       // banned subreddit
+  | 'unknown';
+
+export interface ScrapeFailure {
+  url: string;
+  title: string;
+  kind: FailureKind;
+  status: number | null;   // HTTP status, when there was a response
+  message: string;
+  attempts: number;        // across all runs
+  failedAt: number;
+}
+
+function failuresFile(study: Study): string {
+  return studyFile(study, 'scrape_failures.jsonl');
+}
+
+function failureKey(url: string): string {
+  return postKey(url) || url;
+}
+
+/**
+ * Retrying these won't help until something changes on Reddit's side
+ */
+export function isPermanent(kind: FailureKind): boolean {
+  return kind !== 'transient';
+}
+
+export function loadFailures(study: Study): ScrapeFailure[] {
+  const file = failuresFile(study);
+  if (!existsSync(file)) {
+    return [];
+  }
+
+  const failures: ScrapeFailure[] = [];
+  for (const line of readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      failures.push(JSON.parse(line));
+    } catch (e) {
+      // Skip malformed lines
+    }
+  }
+  return failures;
+}
+
+/**
+ * Rewrite the dead-letter file atomically; removes it once empty
+ */
+function writeFailures(study: Study, failures: ScrapeFailure[]) {
+  const file = failuresFile(study);
+  if (failures.length === 0) {
+    if (existsSync(file)) unlinkSync(file);
+    return;
+  }
+
+  const tmpFile = `${file}.tmp`;
+  writeFileSync(tmpFile, failures.map(f => JSON.stringify(f) + '\n').join(''));
+  renameSync(tmpFile, file);
+}
+
+/**
+ * Record a failed thread, replacing any earlier failure for it
+ */
+export function recordFailure(study: Study, failure: ScrapeFailure) {
+  const key = failureKey(failure.url);
+  const previous = loadFailures(study).filter(f => failureKey(f.url) !== key);
+  writeFailures(study, [...previous, failure]);
+}
+
+/**
+ * Drop a thread from the dead-letter file after it was scraped
+ */
+export function clearFailure(study: Study, url: string) {
+  const key = failureKey(url);
+  const failures = loadFailures(study);
+  const remaining = failures.filter(f => failureKey(f.url) !== key);
+  if (remaining.length !== failures.length) {
+    writeFailures(study, remaining);
+  }
+}
@@ -1,102 +1,214 @@
-import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { writeFileSync, renameSync } from 'fs';
+import { loadStudy, studyFile, CleanRules } from './study';
+import { loadDiscovered, discoveryQueries } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+import { authorMatcher } from './privacy';
+import { detectLanguage, languageName } from './language';
+import { flagComments } from './hygiene';
+import { postKey, keyPostId } from './urls';
+import { RedditComment, RedditPost } from './types';
 
 /**
- * Filter dataset to only include posts discovered via Reddit API
- * (excludes mixed-in Google API results for clean methodology)
+ * Build the clean dataset that analyze.ts reads: the scraped posts that pass
+ * the study's clean rules ("cleanRules" in studies/<id>.json). By default
+ * only posts discovered via the sources' own APIs are kept (no mixed-in
+ * Google results), for a clean methodology.
+ *
+ * The clean dataset is rebuilt from scratch and replaced in one write, so
+ * running this again gives the same result. A report of what each rule
+ * removed is printed and saved to <dataDir>/clean_report.json.
+ *
+ * Each kept comment is tagged with its detected language (see language.ts)
+ * and gets its hygiene flags (see hygiene.ts), so a clean dataset is never
+ * left without them.
  */
 
-const DISCOVERED_URLS_FILE = 'discovered_urls.jsonl';
-const REDDIT_DATA_FILE = 'reddit_data.jsonl';
-const OUTPUT_FILE = 'reddit_data_clean.jsonl';
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+const REPORT_FILE = studyFile(STUDY, 'clean_report.json');
 
-interface DiscoveredURL {
-  url: string;
-  query: string;
+interface CleanRule {
+  name: string;
+  description: string;
+  keep: (post: RedditPost) => boolean;
 }
 
-interface RedditPost {
-  postId: string;
-  [key: string]: any;
+interface CleanReport {
+  study: string;
+  rules: CleanRules;
+  total: number;
+  kept: number;
+  removed: Record<string, number>;   // rule name -> posts it removed
+  languages: Record<string, number>; // language code -> comments, most common first
+  flagged: number;                    // comments with hygiene flags
+  cleanedAt: number;
+}
+
+/**
+ * The configured rules, in the order they are checked. A post is counted
+ * against the first rule it fails.
+ */
+function buildRules(rules: CleanRules, sourcesByPost: Map<string, string[]>): CleanRule[] {
+  const list: CleanRule[] = [
+    {
+      name: 'source',
+      description: `discovered via ${rules.sources.join(', ')}`,
+      keep: post => (sourcesByPost.get(post.postId) || []).some(source => rules.sources.includes(source)),
+    },
+  ];
+
+  if (rules.subreddits) {
+    const allowed = new Set(rules.subreddits.map(s => s.toLowerCase()));
+    list.push({
+      name: 'subreddit',
+      description: `in ${rules.subreddits.join(', ')}`,
+      keep: post => allowed.has(post.subreddit.toLowerCase()),
+    });
+  }
+
+  if (rules.from || rules.to) {
+    const from = rules.from ? Date.parse(rules.from) / 1000 : -Infinity;
+    const to = rules.to ? Date.parse(rules.to) / 1000 : Infinity;
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      console.error(`❌ ${STUDY.id}: cleanRules "from" / "to" must be ISO dates, e.g. "2025-08-01"`);
+      process.exit(1);
+    }
+    list.push({
+      name: 'date',
+      description: `created ${[rules.from && `from ${rules.from}`, rules.to && `before ${rules.to}`].filter(Boolean).join(' ')}`,
+      keep: post => post.created >= from && post.created < to,
+    });
+  }
+
+  if (rules.minScore !== undefined) {
+    const minScore = rules.minScore;
+    list.push({
+      name: 'minScore',
+      description: `score ≥ ${minScore}`,
+      keep: post => post.score >= minScore,
+    });
+  }
+
+  if (rules.minComments !== undefined) {
+    const minComments = rules.minComments;
+    list.push({
+      name: 'minComments',
+      description: `≥ ${minComments} comments`,
+      keep: post => post.comments.filter(c => !c.deleted).length >= minComments,
+    });
+  }
+
+  if (rules.excludeAuthors?.length) {
+    const excluded = authorMatcher(rules.excludeAuthors);
+    list.push({
+      name: 'excludeAuthors',
+      description: `not posted by ${rules.excludeAuthors.length} excluded authors`,
+      keep: post => !excluded(post.author),
+    });
+  }
+
+  return list;
+}
+
+/**
+ * The comment with its detected language (deleted placeholders have no text)
+ */
+function tagLanguage(comment: RedditComment): RedditComment {
+  if (comment.deleted) {
+    return comment;
+  }
+  return { ...comment, language: detectLanguage(comment.text) };
 }
 
 function main() {
-  console.log('🧹 Filtering dataset to Reddit API discoveries only...\n');
+  console.log(`🧹 Building the clean dataset for ${STUDY.title}...\n`);
 
-  // Check files exist
-  if (!existsSync(DISCOVERED_URLS_FILE)) {
-    console.error(`❌ ${DISCOVERED_URLS_FILE} not found`);
+  // Check inputs exist
+  if (!STORAGE.has('discovered')) {
+    console.error(`❌ ${STORAGE.location('discovered')} not found`);
     process.exit(1);
   }
 
-  if (!existsSync(REDDIT_DATA_FILE)) {
-    console.error(`❌ ${REDDIT_DATA_FILE} not found`);
+  if (!STORAGE.has('posts')) {
+    console.error(`❌ ${STORAGE.location('posts')} not found`);
     process.exit(1);
   }
 
-  // Load discovered URLs and extract Reddit API ones
-  console.log(`Reading ${DISCOVERED_URLS_FILE}...`);
-  const discoveredLines = readFileSync(DISCOVERED_URLS_FILE, 'utf-8')
-    .split('\n')
-    .filter(l => l.trim());
-
-  const redditDiscovered = new Set<string>();
-  let googleCount = 0;
-
-  for (const line of discoveredLines) {
-    try {
-      const record: DiscoveredURL = JSON.parse(line);
-      if (record.query === 'reddit_api') {
-        // Extract post ID from URL
-        const match = record.url.match(/comments\/(\w+)/);
-        if (match) {
-          redditDiscovered.add(match[1]);
-        }
-      } else {
-        googleCount++;
-      }
-    } catch (e) {
-      // Skip malformed lines
+  const lineage = startStage(STUDY, STORAGE, 'filter-clean', ['discovered', 'posts'], { cleanRules: STUDY.cleanRules });
+
+  // Every source that discovered each post
+  const sourcesByPost = new Map<string, string[]>();
+  for (const record of loadDiscovered(STORAGE)) {
+    const key = postKey(record.url);
+    if (key) {
+      sourcesByPost.set(keyPostId(key), discoveryQueries(record));
+    }
+  }
+
+  const rules = buildRules(STUDY.cleanRules, sourcesByPost);
+
+  console.log(`Rules (${STORAGE.location('posts')}, ${STORAGE.countPosts('posts')} posts):`);
+  for (const rule of rules) {
+    console.log(`  • ${rule.name}: ${rule.description}`);
+  }
+  console.log();
+
+  // Posts are read one at a time; only the kept ones are held for the write
+  const removed: Record<string, number> = Object.fromEntries(rules.map(rule => [rule.name, 0]));
+  let kept: RedditPost[] = [];
+  let total = 0;
+  for (const post of STORAGE.iteratePosts('posts')) {
+    total++;
+    const failed = rules.find(rule => !rule.keep(post));
+    if (failed) {
+      removed[failed.name]++;
+    } else {
+      kept.push({ ...post, comments: post.comments.map(tagLanguage) });
     }
   }
 
-  console.log(`  Reddit API discovered: ${redditDiscovered.size}`);
-  console.log(`  Google API discovered: ${googleCount}`);
-  console.log(`  Total: ${discoveredLines.length}\n`);
-
-  // Load scraped data and filter
-  console.log(`Reading ${REDDIT_DATA_FILE}...`);
-  const scrapedLines = readFileSync(REDDIT_DATA_FILE, 'utf-8')
-    .split('\n')
-    .filter(l => l.trim());
-
-  console.log(`  Total scraped posts: ${scrapedLines.length}\n`);
-
-  // Filter to only Reddit-discovered posts
-  let kept = 0;
-  let filtered = 0;
-
-  for (const line of scrapedLines) {
-    try {
-      const post: RedditPost = JSON.parse(line);
-
-      if (redditDiscovered.has(post.postId)) {
-        // Keep this post
-        writeFileSync(OUTPUT_FILE, line + '\n', { flag: 'a' });
-        kept++;
-      } else {
-        filtered++;
-      }
-    } catch (e) {
-      console.error(`  ⚠️  Skipping malformed line`);
+  // Near-duplicates are found across threads, so the hygiene pass needs every kept post
+  kept = flagComments(kept);
+  const flagged = kept.flatMap(post => post.comments).filter(comment => comment.hygiene).length;
+
+  const languageCount: Record<string, number> = {};
+  for (const comment of kept.flatMap(post => post.comments)) {
+    if (comment.language) {
+      languageCount[comment.language] = (languageCount[comment.language] || 0) + 1;
     }
   }
+  const languages = Object.fromEntries(Object.entries(languageCount).sort((a, b) => b[1] - a[1]));
+
+  // Replaces the previous clean dataset in one write
+  STORAGE.writePosts('clean', kept);
+  lineage.finish(['clean']);
+
+  const report: CleanReport = {
+    study: STUDY.id,
+    rules: STUDY.cleanRules,
+    total,
+    kept: kept.length,
+    removed,
+    languages,
+    flagged,
+    cleanedAt: Date.now(),
+  };
+  const tmpFile = `${REPORT_FILE}.tmp`;
+  writeFileSync(tmpFile, JSON.stringify(report, null, 2) + '\n');
+  renameSync(tmpFile, REPORT_FILE);
 
   console.log(`✓ Filtering complete!`);
-  console.log(`  Kept: ${kept} posts (Reddit API discovered)`);
-  console.log(`  Filtered: ${filtered} posts (Google API discovered)`);
-  console.log(`  Saved to: ${OUTPUT_FILE}\n`);
+  console.log(`  Kept: ${kept.length} of ${total} posts`);
+  for (const rule of rules) {
+    console.log(`  Removed by ${rule.name}: ${removed[rule.name]}`);
+  }
+  console.log(`  Comment languages: ${Object.entries(languages).map(([code, count]) => `${languageName(code)} ${count}`).join(', ') || 'none'}`);
+  console.log(`  Flagged comments (hygiene): ${flagged}`);
+  console.log(`  Saved to: ${STORAGE.location('clean')}`);
+  console.log(`  Report: ${REPORT_FILE}\n`);
 
-  console.log(`📊 Clean dataset ready for v1 analysis!`);
+  console.log(`📊 Clean dataset ready for analysis!`);
 }
 
 main();
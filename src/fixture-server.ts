@@ -0,0 +1,68 @@
+import { createServer } from 'http';
+import { readFileSync, existsSync } from 'fs';
+import { getFlag } from './args';
+
+/**
+ * Serve a recorded cassette over HTTP so stages can run against a local
+ * server instead of the real API:
+ *
+ *   npm run fixture-server -- cassettes/github.json --port 4010
+ *   GITHUB_API_URL=http://localhost:4010 npm run discover:github -- --as-of <recordedAt>
+ *
+ * Requests match cassette entries on method, path, query and body; the
+ * recorded origin is ignored.
+ */
+
+const DEFAULT_PORT = 4010;
+
+/**
+ * Drop the scheme and host from a cassette key ("GET" keys are bare URLs,
+ * others are "<METHOD> <url> <body>")
+ */
+function stripOrigin(key: string): string {
+  return key.replace(/https?:\/\/[^/\s]+/, '');
+}
+
+function main() {
+  const file = process.argv.slice(2).find(arg => arg.endsWith('.json'));
+  const port = parseInt(getFlag('port') || process.env.PORT || DEFAULT_PORT.toString());
+
+  if (!file || !existsSync(file)) {
+    console.error('❌ Usage: npm run fixture-server -- <cassette.json> [--port 4010]');
+    process.exit(1);
+  }
+
+  const cassette = JSON.parse(readFileSync(file, 'utf-8'));
+  const responses = new Map<string, any>();
+  for (const [key, body] of Object.entries(cassette.responses)) {
+    responses.set(stripOrigin(key), body);
+  }
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const key = body ? `${req.method} ${req.url} ${body}` : req.url || '/';
+      const recorded = responses.get(key);
+
+      if (recorded === undefined) {
+        console.log(`  ✗ ${req.method} ${req.url} (not recorded)`);
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: `No recorded response for ${key}` }));
+        return;
+      }
+
+      console.log(`  ✓ ${req.method} ${req.url}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(recorded));
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`📼 Serving ${responses.size} recorded responses from ${file}`);
+    console.log(`   http://localhost:${port}`);
+    console.log(`   Run stages with --as-of ${new Date(cassette.recordedAt).toISOString()} to match the recording\n`);
+  });
+}
+
+main();
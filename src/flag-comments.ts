@@ -0,0 +1,55 @@
+import { loadStudy } from './study';
+import { openStorage } from './storage';
+import { flagComments } from './hygiene';
+import { startStage } from './lineage';
+import { HygieneFlag } from './types';
+
+/**
+ * Re-flag bot comments, moderator templates, referral spam and
+ * near-duplicate comments in the clean dataset (see hygiene.ts). The
+ * analyzer skips flagged comments and the dashboard hides them by default.
+ *
+ * filter-clean already flags the dataset it builds; run this after changing
+ * the hygiene rules, to update a clean dataset without rebuilding it.
+ */
+
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+
+const FLAG_LABELS: Record<HygieneFlag, string> = {
+  bot: 'Bot authors',
+  mod_template: 'Moderator templates',
+  referral: 'Referral spam',
+  near_duplicate: 'Near-duplicates',
+};
+
+function main() {
+  console.log(`🧽 Flagging low-quality comments in ${STUDY.title}...\n`);
+
+  if (!STORAGE.has('clean')) {
+    console.error(`❌ ${STORAGE.location('clean')} not found`);
+    console.error('   Run "npm run filter-clean" first');
+    process.exit(1);
+  }
+
+  const lineage = startStage(STUDY, STORAGE, 'hygiene', ['clean']);
+
+  const posts = flagComments(STORAGE.loadPosts('clean'));
+  STORAGE.writePosts('clean', posts);
+  lineage.finish(['clean']);
+
+  const comments = posts.flatMap(post => post.comments).filter(comment => !comment.deleted);
+  const flagged = comments.filter(comment => comment.hygiene);
+
+  console.log(`✓ Hygiene check complete!`);
+  console.log(`  Comments: ${comments.length}`);
+  console.log(`  Flagged: ${flagged.length}`);
+  for (const [flag, label] of Object.entries(FLAG_LABELS)) {
+    const count = flagged.filter(comment => comment.hygiene!.includes(flag as HygieneFlag)).length;
+    console.log(`    ${label}: ${count}`);
+  }
+  console.log(`  Saved to: ${STORAGE.location('clean')}`);
+  console.log(`\nNext step: Run "npm run analyze" (flagged comments are skipped)`);
+}
+
+main();
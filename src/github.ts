@@ -0,0 +1,111 @@
+import { cassetteMode, fetchJson } from './cassette';
+
+/**
+ * GitHub helpers shared by discover-github.ts and scrape-github.ts.
+ *
+ * Point GITHUB_API_URL at `npm run fixture-server` to run against recorded
+ * responses instead of api.github.com.
+ */
+
+export const GITHUB_API_URL = process.env.GITHUB_API_URL || 'https://api.github.com';
+const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+
+// Cassette used by --record / --replay
+export const GITHUB_CASSETTE = 'github';
+
+export interface GitHubReactions {
+  '+1': number;
+  '-1': number;
+  total_count: number;
+}
+
+export interface GitHubReactionGroup {
+  content: string;               // THUMBS_UP, THUMBS_DOWN, HEART, ...
+  reactors: { totalCount: number };
+}
+
+export interface GitHubRef {
+  repo: string;                  // owner/name
+  kind: 'issues' | 'discussions';
+  number: number;
+}
+
+/**
+ * Whether GraphQL (which discussions need) can be queried: api.github.com
+ * requires a token, replays and a fixture server at GITHUB_API_URL don't
+ */
+export function canQueryGraphQL(): boolean {
+  return !!GITHUB_TOKEN || !!process.env.GITHUB_API_URL || cassetteMode() === 'replay';
+}
+
+function headers(): Record<string, string> {
+  const h: Record<string, string> = {
+    'Accept': 'application/vnd.github+json',
+    'User-Agent': process.env.REDDIT_USER_AGENT || 'lois-content-research/1.0.0',
+  };
+  if (GITHUB_TOKEN) {
+    h['Authorization'] = `Bearer ${GITHUB_TOKEN}`;
+  }
+  return h;
+}
+
+/**
+ * GET a REST endpoint (path relative to the API root)
+ */
+export async function githubGet<T = any>(path: string): Promise<T> {
+  return fetchJson<T>(GITHUB_CASSETTE, `${GITHUB_API_URL}${path}`, { headers: headers() });
+}
+
+/**
+ * Run a GraphQL query
+ */
+export async function githubGraphQL<T = any>(query: string, variables: Record<string, any>): Promise<T> {
+  const response = await fetchJson<{ data?: T; errors?: Array<{ message: string }> }>(
+    GITHUB_CASSETTE,
+    `${GITHUB_API_URL}/graphql`,
+    {
+      method: 'POST',
+      headers: { ...headers(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+    }
+  );
+
+  if (response.errors && response.errors.length > 0) {
+    throw new Error(`GitHub GraphQL error: ${response.errors.map(e => e.message).join('; ')}`);
+  }
+
+  return response.data as T;
+}
+
+/**
+ * Parse an issue or discussion URL
+ */
+export function extractGitHubRef(url: string): GitHubRef | null {
+  const match = url.match(/github\.com\/([\w.-]+\/[\w.-]+)\/(issues|discussions)\/(\d+)/);
+  if (!match) return null;
+  return { repo: match[1], kind: match[2] as GitHubRef['kind'], number: parseInt(match[3]) };
+}
+
+/**
+ * Post ID for an issue or discussion (they share one number space per repo)
+ */
+export function githubPostId(ref: Pick<GitHubRef, 'repo' | 'number'>): string {
+  return `${ref.repo}#${ref.number}`;
+}
+
+/**
+ * Net reactions (👍 minus 👎) stand in for Reddit's score
+ */
+export function reactionScore(reactions: GitHubReactions | undefined): number {
+  if (!reactions) return 0;
+  return (reactions['+1'] || 0) - (reactions['-1'] || 0);
+}
+
+/**
+ * Same as reactionScore, for GraphQL reactionGroups
+ */
+export function reactionGroupScore(groups: GitHubReactionGroup[] | undefined): number {
+  if (!groups) return 0;
+  const count = (content: string) => groups.find(g => g.content === content)?.reactors.totalCount || 0;
+  return count('THUMBS_UP') - count('THUMBS_DOWN');
+}
@@ -0,0 +1,138 @@
+import { readFileSync, writeFileSync, existsSync, unlinkSync, mkdirSync } from 'fs';
+import { Study, studyFile } from './study';
+
+/**
+ * Query planning for Google Custom Search, which never returns more than
+ * 100 results per query. Each search query is run over date windows
+ * (`sort=date:r:YYYYMMDD:YYYYMMDD`), and a window reporting more than 100
+ * results is split in half until every slice fits under the cap.
+ *
+ * Pending windows are saved to <dataDir>/google_plan.json, and API calls are
+ * counted in a daily ledger (logs/google_quota.json), so a run that runs out
+ * of free-tier quota resumes where it stopped the next day.
+ */
+
+// Free tier: 100 queries/day, reset at midnight Pacific time
+const DAILY_QUOTA = parseInt(process.env.GOOGLE_DAILY_QUOTA || '100');
+const QUOTA_LEDGER_FILE = 'logs/google_quota.json';
+
+export interface PlannedWindow {
+  query: string;
+  start: string;        // YYYYMMDD, inclusive
+  end: string;          // YYYYMMDD, inclusive
+  startIndex: number;   // next result page to fetch (1, 11, ..., 91)
+}
+
+export interface GooglePlan {
+  startedAt: number;           // Date.now() when planned, becomes each query's checkpoint
+  windows: PlannedWindow[];    // pending windows, fetched front to back
+}
+
+interface QuotaLedger {
+  day: string;     // YYYY-MM-DD in Pacific time
+  used: number;
+}
+
+function planFile(study: Study): string {
+  return studyFile(study, 'google_plan.json');
+}
+
+/**
+ * Unfinished plan from a previous run, if any
+ */
+export function loadPlan(study: Study): GooglePlan | null {
+  const file = planFile(study);
+  if (!existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(file, 'utf-8'));
+}
+
+export function savePlan(study: Study, plan: GooglePlan) {
+  if (plan.windows.length === 0) {
+    if (existsSync(planFile(study))) unlinkSync(planFile(study));
+    return;
+  }
+  writeFileSync(planFile(study), JSON.stringify(plan, null, 2) + '\n');
+}
+
+/**
+ * Format a unix timestamp (seconds) as a Google date-range bound
+ */
+export function toGoogleDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function parseGoogleDate(date: string): Date {
+  return new Date(Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8)));
+}
+
+/**
+ * Number of days a window covers (inclusive)
+ */
+export function windowDays(window: PlannedWindow): number {
+  return Math.round((parseGoogleDate(window.end).getTime() - parseGoogleDate(window.start).getTime()) / 86400000) + 1;
+}
+
+/**
+ * Split a window into two halves, newer half first
+ */
+export function splitWindow(window: PlannedWindow): [PlannedWindow, PlannedWindow] {
+  const start = parseGoogleDate(window.start);
+  const mid = new Date(start.getTime() + Math.floor(windowDays(window) / 2) * 86400000);
+  const beforeMid = new Date(mid.getTime() - 86400000);
+
+  return [
+    { query: window.query, start: toGoogleDate(mid.getTime() / 1000), end: window.end, startIndex: 1 },
+    { query: window.query, start: window.start, end: toGoogleDate(beforeMid.getTime() / 1000), startIndex: 1 },
+  ];
+}
+
+/**
+ * `sort` parameter restricting results to a window
+ */
+export function dateRange(window: PlannedWindow): string {
+  return `date:r:${window.start}:${window.end}`;
+}
+
+function quotaDay(): string {
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+}
+
+function loadLedger(): QuotaLedger {
+  if (existsSync(QUOTA_LEDGER_FILE)) {
+    const ledger: QuotaLedger = JSON.parse(readFileSync(QUOTA_LEDGER_FILE, 'utf-8'));
+    if (ledger.day === quotaDay()) return ledger;
+  }
+  return { day: quotaDay(), used: 0 };
+}
+
+function saveLedger(ledger: QuotaLedger) {
+  if (!existsSync('logs')) {
+    mkdirSync('logs', { recursive: true });
+  }
+  writeFileSync(QUOTA_LEDGER_FILE, JSON.stringify(ledger, null, 2) + '\n');
+}
+
+/**
+ * Queries left today under the free-tier limit
+ */
+export function quotaRemaining(): number {
+  return Math.max(0, DAILY_QUOTA - loadLedger().used);
+}
+
+/**
+ * Count one API call against today's quota
+ */
+export function recordQuery() {
+  const ledger = loadLedger();
+  ledger.used++;
+  saveLedger(ledger);
+}
+
+/**
+ * Mark today's quota as used up (Google answered 429)
+ */
+export function exhaustQuota() {
+  saveLedger({ day: quotaDay(), used: DAILY_QUOTA });
+}
@@ -0,0 +1,51 @@
+/**
+ * Hacker News helpers shared by discover-hn.ts and scrape-hn.ts
+ */
+
+export const HN_API_URL = process.env.HN_API_URL || 'https://hn.algolia.com/api/v1';
+
+// Cassette used by --record / --replay
+export const HN_CASSETTE = 'hn';
+
+/**
+ * Item as returned by the Algolia /items/:id endpoint (full comment tree)
+ */
+export interface HNItem {
+  id: number;
+  type: 'story' | 'comment' | 'poll' | 'job';
+  author: string | null;    // null for deleted items
+  title: string | null;
+  text: string | null;      // HTML
+  url: string | null;
+  points: number | null;    // HN does not expose comment scores, so null for comments
+  parent_id: number | null;
+  story_id: number;
+  created_at_i: number;
+  children: HNItem[];
+}
+
+/**
+ * Extract item ID from a news.ycombinator.com URL
+ */
+export function extractHNId(url: string): string | null {
+  const match = url.match(/news\.ycombinator\.com\/item\?id=(\d+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Strip HN's HTML markup down to plain text
+ */
+export function htmlToText(html: string | null | undefined): string {
+  if (!html) return '';
+  return html
+    .replace(/<p>/g, '\n\n')
+    .replace(/<a [^>]*href="([^"]*)"[^>]*>.*?<\/a>/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#x2F;/g, '/')
+    .replace(/&#x27;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
@@ -0,0 +1,232 @@
+import { authorMatcher, isBotName, isPlaceholderAuthor } from './privacy';
+import { RedditComment, RedditPost, HygieneFlag } from './types';
+
+/**
+ * Dataset hygiene: finds comments that aren't opinions about the tools and
+ * would only cost analysis calls and skew the comparison counts.
+ *
+ *   bot              written by a bot account (AutoModerator, *bot, GitHub [bot]s)
+ *   mod_template     moderator boilerplate ("Your post has been removed ...")
+ *   referral         referral / invite links and "use my code" spam
+ *   near_duplicate   the same text as an earlier comment by the same author,
+ *                    i.e. one user cross-posting (word shingles + MinHash, see below)
+ *
+ * Flags are stored per comment (RedditComment.hygiene) by filter-clean, and
+ * recomputed by `npm run hygiene`.
+ */
+
+// Well-known bots the naming conventions in privacy.ts (isBotName) don't catch
+const KNOWN_BOTS = ['AutoModerator', 'sneakpeekbot', 'remindmebot', 'savevideobot', 'SaveVideo', 'B0tRank', 'VredditDownloader'];
+
+const MOD_TEMPLATE_PATTERNS = [
+  /\bthis action was performed automatically\b/i,
+  /\bplease \[?contact the moderators\b/i,
+  /\byour (?:post|comment|submission) has been removed\b/i,
+  /\b(?:post|comment|submission) (?:was|has been) removed (?:for|because|due to)\b/i,
+];
+
+// Phrases people also write themselves ("So I am a bot because ...?"), so
+// they only count from bots and distinguished (moderator/admin) comments
+const BOT_TEMPLATE_PATTERNS = [
+  /\bI am a bot\b/i,
+  /\bread (?:the|our) (?:sub(?:reddit)? )?rules\b/i,
+];
+
+const REFERRAL_PATTERNS = [
+  /[?&](?:ref|referral|referral_code|ref_code|invite|invite_code|aff|affiliate|via)=/i,
+  /\b(?:my|a) (?:referral|invite|affiliate) (?:link|code)\b/i,
+  /\buse (?:my|this) (?:code|link)\b/i,
+];
+
+// Near-duplicates: comments sharing at least this share of their word 3-grams
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+const SHINGLE_SIZE = 3;
+
+// Shorter comments ("This.", "+1") are alike by accident, not copies
+const MIN_WORDS = 8;
+
+// MinHash signature of 64 values, compared in 16 bands of 4 for candidate pairs
+const NUM_HASHES = 64;
+const BAND_ROWS = 4;
+
+const isKnownBot = authorMatcher(KNOWN_BOTS);
+
+function isBot(comment: RedditComment): boolean {
+  return isKnownBot(comment.author) || isBotName(comment.author);
+}
+
+function isModTemplate(comment: RedditComment): boolean {
+  if (comment.distinguished === 'moderator' && comment.stickied) {
+    return true;
+  }
+  if (MOD_TEMPLATE_PATTERNS.some(pattern => pattern.test(comment.text))) {
+    return true;
+  }
+  return (isBot(comment) || !!comment.distinguished) && BOT_TEMPLATE_PATTERNS.some(pattern => pattern.test(comment.text));
+}
+
+function isReferral(comment: RedditComment): boolean {
+  return REFERRAL_PATTERNS.some(pattern => pattern.test(comment.text));
+}
+
+/**
+ * Word 3-grams of the normalized text (case, links and punctuation ignored)
+ */
+function shingles(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const result = new Set<string>();
+  if (words.length < MIN_WORDS) {
+    return result;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+// 32-bit FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer, seeded per MinHash function
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix(i + 1, 0x9e3779b9));
+
+function minhash(shingleSet: Set<string>): number[] {
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingleSet) {
+    const value = hashString(shingle);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = mix(value, SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * IDs of comments that repeat an earlier comment of the same author. Other
+ * people quoting or parodying a comment are replies, not copies. Candidate
+ * pairs come from MinHash banding and are confirmed on their exact shingle
+ * overlap; the oldest comment of each group is kept as the original.
+ */
+function findNearDuplicates(comments: RedditComment[]): Set<string> {
+  const byAuthor = new Map<string, RedditComment[]>();
+  for (const comment of comments) {
+    // Deleted and dropped (AUTHOR_MODE=drop) authors can't be told apart
+    if (isPlaceholderAuthor(comment.author)) continue;
+    const list = byAuthor.get(comment.author) || [];
+    list.push(comment);
+    byAuthor.set(comment.author, list);
+  }
+
+  const duplicates = new Set<string>();
+  for (const authored of byAuthor.values()) {
+    if (authored.length < 2) continue;
+    findCopies(authored).forEach(id => duplicates.add(id));
+  }
+  return duplicates;
+}
+
+/**
+ * IDs of the comments in the list that repeat an earlier one
+ */
+function findCopies(comments: RedditComment[]): Set<string> {
+  const entries = comments
+    .map(comment => ({ comment, shingles: shingles(comment.text) }))
+    .filter(entry => entry.shingles.size > 0);
+
+  // Union-find over entry indexes
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  const buckets = new Map<string, number[]>();
+  entries.forEach((entry, i) => {
+    const signature = minhash(entry.shingles);
+    for (let band = 0; band < NUM_HASHES; band += BAND_ROWS) {
+      const key = `${band}:${signature.slice(band, band + BAND_ROWS).join(',')}`;
+      const bucket = buckets.get(key) || [];
+      bucket.push(i);
+      buckets.set(key, bucket);
+    }
+  });
+
+  for (const bucket of buckets.values()) {
+    for (let x = 1; x < bucket.length; x++) {
+      for (let y = 0; y < x; y++) {
+        const a = bucket[x];
+        const b = bucket[y];
+        if (find(a) !== find(b) && jaccard(entries[a].shingles, entries[b].shingles) >= NEAR_DUPLICATE_THRESHOLD) {
+          parent[find(a)] = find(b);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, RedditComment[]>();
+  entries.forEach((entry, i) => {
+    const group = groups.get(find(i)) || [];
+    group.push(entry.comment);
+    groups.set(find(i), group);
+  });
+
+  const duplicates = new Set<string>();
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const [, ...copies] = [...group].sort((a, b) => a.created - b.created || a.id.localeCompare(b.id));
+    copies.forEach(copy => duplicates.add(copy.id));
+  }
+  return duplicates;
+}
+
+/**
+ * Flag every comment of the dataset, replacing earlier flags. Near-duplicates
+ * are found across all threads of an author, not only within one.
+ */
+export function flagComments(posts: RedditPost[]): RedditPost[] {
+  const live = posts.flatMap(post => post.comments.filter(comment => !comment.deleted));
+  const duplicates = findNearDuplicates(live);
+
+  return posts.map(post => ({
+    ...post,
+    comments: post.comments.map(comment => {
+      const { hygiene: _previous, ...rest } = comment;
+      if (comment.deleted) {
+        return rest;
+      }
+
+      const flags: HygieneFlag[] = [];
+      if (isBot(comment)) flags.push('bot');
+      if (isModTemplate(comment)) flags.push('mod_template');
+      if (isReferral(comment)) flags.push('referral');
+      if (duplicates.has(comment.id)) flags.push('near_duplicate');
+
+      return flags.length > 0 ? { ...rest, hygiene: flags } : rest;
+    }),
+  }));
+}
@@ -0,0 +1,120 @@
+/**
+ * Language detection for scraped comments. Threads in r/ChatGPTCoding and
+ * r/codex carry Portuguese, Spanish, Chinese, Japanese, ... comments, which
+ * the analyzer handles according to the study's language policy (see
+ * LanguagePolicy in study.ts).
+ *
+ * No model is involved: non-Latin scripts are recognized by their Unicode
+ * script, Latin-script languages by their most common short words. Comments
+ * too short to tell are "und" (undetermined) and treated like English.
+ */
+
+export const UNDETERMINED = 'und';
+
+// Languages written in their own script (ISO 639-1 code -> script)
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['ja', /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ['ko', /\p{Script=Hangul}/gu],
+  ['zh', /\p{Script=Han}/gu],
+  ['ru', /\p{Script=Cyrillic}/gu],
+  ['ar', /\p{Script=Arabic}/gu],
+  ['he', /\p{Script=Hebrew}/gu],
+  ['hi', /\p{Script=Devanagari}/gu],
+  ['th', /\p{Script=Thai}/gu],
+  ['el', /\p{Script=Greek}/gu],
+];
+
+// One CJK character carries about as much as a Latin word
+const CJK_WEIGHT = 3;
+const CJK = new Set(['ja', 'ko', 'zh']);
+
+// Share of the (weighted) letters a script needs to decide the language
+const SCRIPT_SHARE = 0.4;
+
+// Frequent short words, chosen to overlap as little as possible
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'it', 'to', 'of', 'that', 'this', 'for', 'with', 'you', 'but', 'not', 'have', 'are', 'was', 'i', 'my', 'on', 'in', 'just', 'be', 'they', 'what', 'so', 'can', 'if', 'or', 'at', 'than', 'it\'s', 'don\'t', 'i\'m'],
+  es: ['el', 'los', 'las', 'es', 'y', 'en', 'una', 'por', 'pero', 'muy', 'lo', 'más', 'mejor', 'como', 'del', 'al', 'se', 'yo', 'está', 'también', 'esto', 'eso', 'tiene', 'hay', 'porque', 'cuando'],
+  pt: ['o', 'os', 'é', 'e', 'em', 'um', 'uma', 'para', 'com', 'mas', 'muito', 'não', 'mais', 'melhor', 'como', 'do', 'da', 'dos', 'das', 'no', 'na', 'eu', 'está', 'também', 'isso', 'você', 'pra', 'tem', 'porque', 'quando'],
+  fr: ['le', 'les', 'et', 'est', 'une', 'des', 'pour', 'avec', 'mais', 'très', 'pas', 'plus', 'je', 'c\'est', 'il', 'dans', 'du', 'sur', 'ce', 'qui', 'j\'ai', 'vous', 'nous', 'mieux'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ein', 'eine', 'nicht', 'mit', 'für', 'aber', 'sehr', 'auch', 'ich', 'zu', 'auf', 'den', 'dem', 'besser', 'als', 'wie', 'noch', 'wenn'],
+  it: ['il', 'che', 'è', 'gli', 'per', 'ma', 'molto', 'non', 'più', 'sono', 'della', 'io', 'anche', 'questo', 'meglio', 'perché', 'ho', 'hai', 'cosa'],
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([language, words]) => [language, new Set(words)] as const);
+
+// Letters only one of the languages above uses, worth a few words each
+const DISTINCTIVE: Array<[string, RegExp]> = [
+  ['pt', /[ãõ]/],
+  ['es', /[ñ¿¡]/],
+  ['de', /[ßäö]/],
+];
+
+// Latin-script comments need this many stopword hits to be classified
+const MIN_STOPWORDS = 2;
+
+/**
+ * Text without code, links and markup, which look the same in any language
+ */
+function prose(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/\/?[ur]\/[\w-]+/g, ' ');
+}
+
+/**
+ * ISO 639-1 code of the text's language, or "und" when it can't be told
+ */
+export function detectLanguage(text: string): string {
+  const body = prose(text);
+
+  // Own-script languages: the script with the largest (weighted) share of letters
+  const latin = (body.match(/\p{Script=Latin}/gu) || []).length;
+  let best: [string, number] = [UNDETERMINED, 0];
+  for (const [language, pattern] of SCRIPTS) {
+    const count = (body.match(pattern) || []).length * (CJK.has(language) ? CJK_WEIGHT : 1);
+    if (count > best[1]) best = [language, count];
+  }
+  // Japanese text is mostly kanji; kana anywhere in it still makes it Japanese
+  if (best[0] === 'zh' && /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(body)) {
+    best = ['ja', best[1]];
+  }
+  if (best[1] > 0 && best[1] >= (best[1] + latin) * SCRIPT_SHARE) {
+    return best[0];
+  }
+
+  // Latin-script languages: the most stopword hits
+  const words = body.toLowerCase().match(/[\p{L}']+/gu) || [];
+  const scores = STOPWORD_SETS.map(([language, stopwords]) => {
+    let score = words.filter(word => stopwords.has(word)).length;
+    for (const [distinct, pattern] of DISTINCTIVE) {
+      if (distinct === language && pattern.test(body)) score += 2;
+    }
+    return [language, score] as const;
+  }).sort((a, b) => b[1] - a[1]);
+
+  const [first, second] = scores;
+  if (first[1] < MIN_STOPWORDS || first[1] === second[1]) {
+    return UNDETERMINED;
+  }
+  return first[0];
+}
+
+/**
+ * True for comments analyzed as English: English, and too short to tell
+ */
+export function isEnglish(language: string | undefined): boolean {
+  return !language || language === 'en' || language === UNDETERMINED;
+}
+
+/**
+ * English name of a language code ("pt" -> "Portuguese")
+ */
+export function languageName(language: string): string {
+  if (language === UNDETERMINED) {
+    return 'Undetermined';
+  }
+  return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+}
@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { execSync } from 'child_process';
+import { writeFileSync, existsSync } from 'fs';
+import { Study, studyFile } from './study';
+import { Storage, StorageTable, iterateJsonl } from './storage';
+
+/**
+ * Dataset lineage: every stage that writes data appends an entry to
+ * <dataDir>/lineage.jsonl with its config, the hash and record count of each
+ * input it read and each output it wrote, and when it ran. `npm run lineage`
+ * follows the hashes back from an analysis file to the runs that produced it.
+ *
+ * Hashes cover the records, not the file bytes: sha256 over one
+ * JSON.stringify(record) line per record. A table has the same hash in the
+ * JSONL and SQLite backends, and after storage:import / storage:export.
+ */
+
+export interface LineageArtifact {
+  name: string;            // storage table ("clean") or file path
+  location: string;
+  sha256: string | null;   // null = didn't exist
+  records: number;
+}
+
+export interface LineageEntry {
+  id: string;              // <stage>@<startedAt ISO date>
+  stage: string;           // npm script, e.g. "scrape:hn"
+  study: string;
+  studySha256: string;     // the study definition as loaded, overrides included
+  commit: string | null;   // pipeline code version, "+dirty" with local changes
+  args: string[];          // command-line arguments of the run
+  config: Record<string, unknown>;
+  inputs: LineageArtifact[];
+  outputs: LineageArtifact[];
+  startedAt: number;
+  finishedAt: number;
+}
+
+// Artifacts are storage tables, or file paths for everything else
+export type LineageSource = StorageTable | string;
+
+const TABLES: StorageTable[] = ['discovered', 'posts', 'clean', 'analyses', 'runs'];
+
+function lineageFile(study: Study): string {
+  return studyFile(study, 'lineage.jsonl');
+}
+
+/**
+ * sha256 and count of records in their canonical JSONL form, read one record at a time
+ */
+function digestRecords(records: Iterable<unknown>): { sha256: string; records: number } {
+  const hash = createHash('sha256');
+  let count = 0;
+  for (const record of records) {
+    hash.update(JSON.stringify(record) + '\n');
+    count++;
+  }
+  return { sha256: hash.digest('hex'), records: count };
+}
+
+/**
+ * sha256 of records in their canonical JSONL form
+ */
+export function hashRecords(records: Iterable<unknown>): string {
+  return digestRecords(records).sha256;
+}
+
+// Posts are streamed (the largest tables); the others are loaded
+function tableRecords(storage: Storage, table: StorageTable): Iterable<unknown> {
+  switch (table) {
+    case 'discovered': return storage.readDiscovered();
+    case 'posts':
+    case 'clean': return storage.iteratePosts(table);
+    case 'analyses': return storage.loadAnalyses();
+    case 'runs': return storage.loadRuns();
+  }
+}
+
+/**
+ * Hash and count of a table or JSONL file as it is now (malformed file
+ * lines are skipped, like the loaders do)
+ */
+export function describeArtifact(storage: Storage, source: LineageSource): LineageArtifact {
+  const table = TABLES.find(t => t === source);
+  const location = table ? storage.location(table) : source;
+  const exists = table ? storage.has(table) : existsSync(source);
+
+  if (!exists) {
+    return { name: source, location, sha256: null, records: 0 };
+  }
+
+  return { name: source, location, ...digestRecords(table ? tableRecords(storage, table) : iterateJsonl(source)) };
+}
+
+/**
+ * Git commit of the pipeline code, or null outside a git checkout
+ */
+function codeVersion(): string | null {
+  try {
+    const commit = execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+    const dirty = execSync('git status --porcelain --untracked-files=no -- src package.json', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+    return dirty ? `${commit}+dirty` : commit;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Start recording a stage: hashes its inputs now, before the stage changes
+ * them. Call finish() with the outputs once they are written.
+ */
+export function startStage(
+  study: Study,
+  storage: Storage,
+  stage: string,
+  inputs: LineageSource[],
+  config: Record<string, unknown> = {}
+) {
+  const startedAt = Date.now();
+  const inputArtifacts = inputs.map(source => describeArtifact(storage, source));
+
+  return {
+    finish(outputs: LineageSource[]) {
+      const entry: LineageEntry = {
+        id: `${stage}@${new Date(startedAt).toISOString()}`,
+        stage,
+        study: study.id,
+        studySha256: hashRecords([study]),
+        commit: codeVersion(),
+        args: process.argv.slice(2),
+        config,
+        inputs: inputArtifacts,
+        outputs: outputs.map(source => describeArtifact(storage, source)),
+        startedAt,
+        finishedAt: Date.now(),
+      };
+      writeFileSync(lineageFile(study), JSON.stringify(entry) + '\n', { flag: 'a' });
+    },
+  };
+}
+
+/**
+ * All recorded stage runs of a study, oldest first
+ */
+export function loadLineage(study: Study): LineageEntry[] {
+  const file = lineageFile(study);
+  return [...iterateJsonl<LineageEntry>(file)];
+}
@@ -0,0 +1,111 @@
+import { Study, StudyTool } from './study';
+
+/**
+ * Tool mention detection shared by discovery, candidate selection and the
+ * dashboard's highlighting.
+ *
+ * An alias only matches as a whole word ("codex" in "gpt-5-codex" counts,
+ * "codexes" does not), spaces in an alias also match hyphens, and
+ * `exactAliases` are matched case-sensitively ("CC" but not "cc'd").
+ * Matches that overlap one of the tool's `negativePatterns` (e.g. the 2021
+ * OpenAI Codex model) are dropped.
+ */
+
+export interface MentionSpan {
+  tool: string;    // StudyTool.id
+  start: number;   // offset into the text
+  end: number;     // exclusive
+  text: string;    // matched text as written
+}
+
+interface ToolMatcher {
+  tool: StudyTool;
+  aliases: RegExp | null;
+  exactAliases: RegExp | null;
+  negatives: RegExp[];
+}
+
+const matchers = new WeakMap<Study, ToolMatcher[]>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word regex matching any of the aliases, longest first
+ */
+function aliasRegExp(aliases: string[], flags: string): RegExp | null {
+  if (aliases.length === 0) return null;
+
+  const alternatives = [...aliases]
+    .sort((a, b) => b.length - a.length)
+    .map(alias => escapeRegExp(alias).replace(/\s+/g, '[\\s-]+'));
+
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, `gu${flags}`);
+}
+
+function toolMatchers(study: Study): ToolMatcher[] {
+  const cached = matchers.get(study);
+  if (cached) return cached;
+
+  const compiled = study.tools.map(tool => ({
+    tool,
+    aliases: aliasRegExp(tool.aliases, 'i'),
+    exactAliases: aliasRegExp(tool.exactAliases, ''),
+    negatives: tool.negativePatterns.map(pattern => new RegExp(pattern, 'giu')),
+  }));
+
+  matchers.set(study, compiled);
+  return compiled;
+}
+
+function allMatches(regex: RegExp, text: string): Array<{ start: number; end: number }> {
+  return [...text.matchAll(regex)].map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+}
+
+/**
+ * Every tool mention in the text, in order. Where matches overlap the
+ * longest one wins.
+ */
+export function findMentions(text: string, study: Study): MentionSpan[] {
+  const candidates: MentionSpan[] = [];
+
+  for (const matcher of toolMatchers(study)) {
+    const negatives = matcher.negatives.flatMap(regex => allMatches(regex, text));
+
+    for (const regex of [matcher.aliases, matcher.exactAliases]) {
+      if (!regex) continue;
+
+      for (const { start, end } of allMatches(regex, text)) {
+        if (negatives.some(n => n.start < end && start < n.end)) continue;
+        candidates.push({ tool: matcher.tool.id, start, end, text: text.slice(start, end) });
+      }
+    }
+  }
+
+  // Longest first, then drop anything overlapping an already kept span
+  candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+  const kept: MentionSpan[] = [];
+  for (const span of candidates) {
+    if (!kept.some(k => k.start < span.end && span.start < k.end)) {
+      kept.push(span);
+    }
+  }
+
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Ids of the tools mentioned in the text
+ */
+export function mentionedTools(text: string, study: Study): Set<string> {
+  return new Set(findMentions(text, study).map(span => span.tool));
+}
+
+/**
+ * Check if text mentions both tools of the study
+ */
+export function mentionsBothTools(text: string, study: Study): boolean {
+  const mentioned = mentionedTools(text, study);
+  return study.tools.every(tool => mentioned.has(tool.id));
+}
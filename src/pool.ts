@@ -0,0 +1,42 @@
+/**
+ * Bounded-concurrency worker pool. Up to `concurrency` items are worked on at
+ * once, but results are handed to `onResult` one at a time and in input
+ * order, so callers can append to JSONL files exactly as a sequential loop
+ * would.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onResult: (result: R, item: T, index: number) => void | Promise<void>
+): Promise<void> {
+  const finished = new Map<number, R>();
+  let nextItem = 0;
+  let nextResult = 0;
+  let delivering: Promise<void> = Promise.resolve();
+
+  // Deliver every result that is next in line, serialised so onResult never overlaps
+  function deliver() {
+    delivering = delivering.then(async () => {
+      while (finished.has(nextResult)) {
+        const result = finished.get(nextResult)!;
+        finished.delete(nextResult);
+        await onResult(result, items[nextResult], nextResult);
+        nextResult++;
+      }
+    });
+    return delivering;
+  }
+
+  async function run() {
+    while (nextItem < items.length) {
+      const index = nextItem++;
+      finished.set(index, await worker(items[index], index));
+      await deliver();
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, run);
+  await Promise.all(workers);
+  await deliver();
+}
@@ -0,0 +1,79 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { Study } from './study';
+
+/**
+ * The pre-screen's structured output, like analysis-schema.ts: a tool the
+ * model fills in with one verdict per thread, and a runtime check of each
+ * verdict, since the API doesn't enforce the schema.
+ */
+
+export const PRESCREEN_TOOL = 'record_verdicts';
+
+// One thread's verdict as the model returns it
+export interface ModelVerdict {
+  index: number;
+  comparison: boolean;
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Tool definition for a study
+ */
+export function prescreenTool(study: Study): Anthropic.Tool {
+  const [a, b] = study.tools;
+
+  return {
+    name: PRESCREEN_TOOL,
+    description: `Record a verdict for every thread in the list`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        verdicts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer', description: 'The thread\'s number in the list' },
+              comparison: { type: 'boolean', description: `Whether the thread likely compares ${a.name} and ${b.name}` },
+              confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Confidence in the verdict, 0-1' },
+              reason: { type: 'string', description: 'Short reason' },
+            },
+            required: ['index', 'comparison', 'confidence', 'reason'],
+          },
+        },
+      },
+      required: ['verdicts'],
+    },
+  };
+}
+
+/**
+ * Problems with one verdict of a batch of `threads` threads; empty if valid
+ */
+export function validateVerdict(input: unknown, threads: number): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['the verdict must be an object'];
+  }
+
+  const verdict = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!Number.isInteger(verdict.index) || (verdict.index as number) < 0 || (verdict.index as number) >= threads) {
+    errors.push(`"index" must be a thread number from 0 to ${threads - 1} (got ${JSON.stringify(verdict.index)})`);
+  }
+
+  if (typeof verdict.comparison !== 'boolean') {
+    errors.push(`"comparison" must be true or false (got ${JSON.stringify(verdict.comparison)})`);
+  }
+
+  if (typeof verdict.confidence !== 'number' || !(verdict.confidence >= 0 && verdict.confidence <= 1)) {
+    errors.push(`"confidence" must be a number from 0 to 1 (got ${JSON.stringify(verdict.confidence)})`);
+  }
+
+  if (typeof verdict.reason !== 'string') {
+    errors.push(`"reason" must be a string (got ${JSON.stringify(verdict.reason)})`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,189 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from 'dotenv';
+import { loadStudy } from './study';
+import { hasFlag } from './args';
+import { discoveredKey, loadDiscovered, readDiscovered, writeDiscovered, prescreenRejected } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+import { PRESCREEN_TOOL, ModelVerdict, prescreenTool, validateVerdict } from './prescreen-schema';
+import { DiscoveredURL, PrescreenVerdict } from './types';
+
+config();
+
+/**
+ * Optional stage between discovery and scraping: a small model reads each
+ * discovered thread's title + snippet and judges whether it is a real
+ * comparison of the two tools. The verdict is stored on the DiscoveredURL;
+ * scrapers skip confident rejections unless run with --force.
+ *
+ *   npm run prescreen            screen threads without a verdict
+ *   npm run prescreen -- --all   re-screen everything
+ */
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY!,
+});
+
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+
+// Small, cheap model - titles and snippets don't need more
+const MODEL = process.env.PRESCREEN_MODEL || 'claude-3-5-haiku-20241022';
+
+// Threads classified per request
+const BATCH_SIZE = 20;
+
+/**
+ * Classify a batch of threads in one request. Verdicts that fail validation
+ * are dropped, so those threads stay unscreened.
+ */
+async function screenBatch(batch: DiscoveredURL[]): Promise<{ verdicts: ModelVerdict[]; invalid: number; inputTokens: number; outputTokens: number }> {
+  const [a, b] = STUDY.tools;
+
+  const threads = batch.map((record, i) => [
+    `[${i}] ${record.subreddit ? `(${record.subreddit}) ` : ''}${record.title}`,
+    record.snippet ? `    ${record.snippet.replace(/\s+/g, ' ')}` : '',
+  ].filter(Boolean).join('\n')).join('\n\n');
+
+  const prompt = `You are screening discussion threads for a study comparing ${a.name} and ${b.name} (AI coding tools).
+
+For each thread below (title, and the start of the post when available), decide whether the discussion is likely to compare or weigh ${a.name} against ${b.name}, as opposed to only mentioning them in passing, being about other tools, or using the names for something else.
+
+${threads}
+
+Record a verdict for every thread with the ${PRESCREEN_TOOL} tool, using the thread's number as its index.`;
+
+  const message = await anthropic.messages.create({
+    model: MODEL,
+    max_tokens: 2048,
+    tools: [prescreenTool(STUDY)],
+    tool_choice: { type: 'tool', name: PRESCREEN_TOOL },
+    messages: [{ role: 'user', content: prompt }],
+  });
+
+  const toolUse = message.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+  const output = toolUse?.input as { verdicts?: unknown } | undefined;
+  if (!Array.isArray(output?.verdicts)) {
+    throw new Error(`No ${PRESCREEN_TOOL} call with a verdicts array in the response`);
+  }
+
+  const verdicts: ModelVerdict[] = [];
+  let invalid = 0;
+  for (const verdict of output.verdicts) {
+    const errors = validateVerdict(verdict, batch.length);
+    if (errors.length === 0 && verdicts.some(v => v.index === (verdict as ModelVerdict).index)) {
+      errors.push(`thread ${(verdict as ModelVerdict).index} has more than one verdict`);
+    }
+    if (errors.length > 0) {
+      console.log(`  ⊘ Invalid verdict left unset: ${errors.join('; ')}`);
+      invalid++;
+      continue;
+    }
+    verdicts.push(verdict as ModelVerdict);
+  }
+
+  return {
+    verdicts,
+    invalid,
+    inputTokens: message.usage.input_tokens,
+    outputTokens: message.usage.output_tokens,
+  };
+}
+
+/**
+ * Store verdicts on every record of each screened thread (duplicates included)
+ */
+function saveVerdicts(verdicts: Map<string, PrescreenVerdict>) {
+  const records = readDiscovered(STORAGE).map(record => {
+    const verdict = verdicts.get(discoveredKey(record.url));
+    return verdict ? { ...record, prescreen: verdict } : record;
+  });
+  writeDiscovered(STORAGE, records);
+}
+
+async function main() {
+  console.log(`🔎 ${STUDY.title} Relevance Pre-screen\n`);
+
+  if (!process.env.ANTHROPIC_API_KEY) {
+    console.error('❌ Missing ANTHROPIC_API_KEY in .env file');
+    console.error('   Get your key at: https://console.anthropic.com/');
+    process.exit(1);
+  }
+
+  if (!STORAGE.has('discovered')) {
+    console.error(`❌ ${STORAGE.location('discovered')} not found`);
+    console.error('   Run "npm run discover" first to discover threads');
+    process.exit(1);
+  }
+
+  const discovered = loadDiscovered(STORAGE);
+  const pending = hasFlag('all') ? discovered : discovered.filter(record => !record.prescreen);
+
+  console.log(`  Discovered threads: ${discovered.length}`);
+  console.log(`  To screen: ${pending.length} (model: ${MODEL})\n`);
+
+  if (pending.length === 0) {
+    console.log('✓ Nothing to screen');
+    return;
+  }
+
+  const lineage = startStage(STUDY, STORAGE, 'prescreen', ['discovered'], { model: MODEL, batchSize: BATCH_SIZE });
+
+  const startTime = Date.now();
+  const verdicts = new Map<string, PrescreenVerdict>();
+  let errors = 0;
+  let invalid = 0;
+  let totalInputTokens = 0;
+  let totalOutputTokens = 0;
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+
+    try {
+      const result = await screenBatch(batch);
+      totalInputTokens += result.inputTokens;
+      totalOutputTokens += result.outputTokens;
+      invalid += result.invalid;
+
+      for (const verdict of result.verdicts) {
+        const record = batch[verdict.index];
+        const stored: PrescreenVerdict = {
+          comparison: verdict.comparison,
+          confidence: verdict.confidence,
+          reason: verdict.reason,
+          model: MODEL,
+          screenedAt: Date.now(),
+        };
+        verdicts.set(discoveredKey(record.url), stored);
+
+        console.log(`  ${stored.comparison ? '✓' : '⊗'} ${record.title} (${stored.confidence.toFixed(2)})`);
+      }
+    } catch (error: any) {
+      console.error(`  ✗ Error screening batch ${i / BATCH_SIZE + 1}: ${error.message}`);
+      errors++;
+    }
+
+    // Save as we go so an interrupted run keeps its verdicts
+    saveVerdicts(verdicts);
+    console.log(`  Progress: ${Math.min(i + BATCH_SIZE, pending.length)}/${pending.length}\n`);
+  }
+
+  lineage.finish(['discovered']);
+
+  const screened = [...verdicts.values()];
+  const rejected = loadDiscovered(STORAGE).filter(prescreenRejected).length;
+  const totalTime = Math.round((Date.now() - startTime) / 1000);
+  const cost = (totalInputTokens / 1_000_000) * 1.00 + (totalOutputTokens / 1_000_000) * 5.00; // Haiku pricing
+
+  console.log(`✓ Pre-screen complete!`);
+  console.log(`  Time: ${totalTime}s`);
+  console.log(`  Screened: ${screened.length} threads (${screened.filter(v => v.comparison).length} comparisons)`);
+  console.log(`  Rejected (will not be scraped): ${rejected} threads in total`);
+  console.log(`  Invalid verdicts (left unscreened): ${invalid}`);
+  console.log(`  Errors: ${errors} batches`);
+  console.log(`  Cost: ~$${cost.toFixed(4)} (${totalInputTokens.toLocaleString()} in, ${totalOutputTokens.toLocaleString()} out)`);
+  console.log(`  Saved to: ${STORAGE.location('discovered')}`);
+  console.log(`\nNext step: Run "npm run scrape" (add --force to include rejected threads)`);
+}
+
+main().catch(console.error);
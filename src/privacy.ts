@@ -0,0 +1,180 @@
+import { createHash, randomBytes } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { getFlag } from './args';
+import { RedditComment, RedditPost } from './types';
+
+/**
+ * Privacy controls for stored and published data:
+ *
+ * - Usernames are replaced at scrape time with a stable salted hash
+ *   ("u_3f9a0c21b7e4"), so a thread's structure and OP stay visible without
+ *   storing who wrote it. AUTHOR_MODE=drop (or --authors drop) stores no
+ *   author at all.
+ * - redactText() strips emails, URLs carrying tokens and @-mentions from text
+ *   before it is sent to the analyzer or published.
+ * - Authors on the do-not-quote list (do_not_quote.txt, one username per line)
+ *   are never quoted in analysis output or on the dashboard.
+ */
+
+export type AuthorMode = 'hash' | 'drop';
+
+const AUTHOR_MODE = (getFlag('authors') || process.env.AUTHOR_MODE || 'hash') as AuthorMode;
+
+// Used when AUTHOR_SALT is not set; kept out of the repo so hashes can't be reversed by guessing names
+const SALT_FILE = 'logs/author_salt';
+
+const DO_NOT_QUOTE_FILE = process.env.DO_NOT_QUOTE_FILE || 'do_not_quote.txt';
+
+// Not usernames: placeholders for deleted accounts, and already pseudonymized authors
+const PLACEHOLDER_AUTHORS = new Set(['', '[deleted]', '[removed]']);
+const HASHED_AUTHOR = /^u_[0-9a-f]{12}$/;
+
+// Bot accounts are not people and keep their names, so hygiene.ts can spot them.
+// A suffix after a separator matches in any case ("ClaudeCode-Mod-Bot"), a
+// glued one only capitalized ("RemindMeBot", but not "Robot")
+const BOT_NAMES = [/\[bot\]$|[-_]bot$/i, /[a-z0-9]Bot$/];
+
+let salt: string | null = null;
+
+function authorSalt(): string {
+  if (salt) {
+    return salt;
+  }
+
+  if (process.env.AUTHOR_SALT) {
+    salt = process.env.AUTHOR_SALT;
+  } else if (existsSync(SALT_FILE)) {
+    salt = readFileSync(SALT_FILE, 'utf-8').trim();
+  } else {
+    salt = randomBytes(16).toString('hex');
+    mkdirSync('logs', { recursive: true });
+    writeFileSync(SALT_FILE, salt + '\n');
+    console.log(`🔑 Created ${SALT_FILE} to pseudonymize authors (set AUTHOR_SALT to share it between machines)`);
+  }
+
+  return salt;
+}
+
+/**
+ * Stable pseudonym for a username (usernames are case-insensitive)
+ */
+export function hashAuthor(author: string): string {
+  const digest = createHash('sha256').update(`${authorSalt()}:${author.toLowerCase()}`).digest('hex');
+  return `u_${digest.slice(0, 12)}`;
+}
+
+/**
+ * True for names that follow bot conventions ("dependabot[bot]", "RemindMeBot", "summary-bot")
+ */
+export function isBotName(author: string): boolean {
+  return BOT_NAMES.some(pattern => pattern.test(author));
+}
+
+/**
+ * True for the stand-ins of deleted accounts and dropped authors
+ */
+export function isPlaceholderAuthor(author: string): boolean {
+  return PLACEHOLDER_AUTHORS.has(author);
+}
+
+/**
+ * What gets stored for an author, depending on AUTHOR_MODE
+ */
+export function pseudonymizeAuthor(author: string): string {
+  if (AUTHOR_MODE !== 'hash' && AUTHOR_MODE !== 'drop') {
+    console.error(`❌ Unknown AUTHOR_MODE "${AUTHOR_MODE}" (expected hash or drop)`);
+    process.exit(1);
+  }
+
+  if (PLACEHOLDER_AUTHORS.has(author) || HASHED_AUTHOR.test(author) || isBotName(author)) {
+    return author;
+  }
+  return AUTHOR_MODE === 'drop' ? '' : hashAuthor(author);
+}
+
+/**
+ * Match stored authors against a list of usernames ("name", "u/name"). The
+ * list is kept as usernames and as their hashes, so it works on data
+ * scraped before and after pseudonymization.
+ */
+export function authorMatcher(names: string[]): (author: string) => boolean {
+  const keys = new Set<string>();
+  for (const entry of names) {
+    const name = entry.trim().replace(/^\/?u\//, '');
+    if (!name) continue;
+    keys.add(name.toLowerCase());
+    keys.add(hashAuthor(name));
+  }
+  return author => keys.has(HASHED_AUTHOR.test(author) ? author : author.toLowerCase());
+}
+
+let doNotQuote: ((author: string) => boolean) | null = null;
+
+/**
+ * True if the author asked not to be quoted (works on raw and hashed authors)
+ */
+export function isDoNotQuote(author: string): boolean {
+  if (!doNotQuote) {
+    const names = existsSync(DO_NOT_QUOTE_FILE)
+      ? readFileSync(DO_NOT_QUOTE_FILE, 'utf-8').split('\n').map(line => line.replace(/#.*/, ''))
+      : [];
+    doNotQuote = authorMatcher(names);
+  }
+  return doNotQuote(author);
+}
+
+/**
+ * A scraped post as it should be stored: authors pseudonymized, and comments
+ * by authors on the do-not-quote list flagged (the flag survives AUTHOR_MODE=drop)
+ */
+export function pseudonymizePost(post: RedditPost): RedditPost {
+  return {
+    ...post,
+    author: pseudonymizeAuthor(post.author),
+    comments: post.comments.map((comment): RedditComment => ({
+      ...comment,
+      author: pseudonymizeAuthor(comment.author),
+      ...(isDoNotQuote(comment.author) ? { doNotQuote: true } : {}),
+    })),
+  };
+}
+
+// Query parameters that carry credentials or one-time tokens
+const TOKEN_PARAMS = /[?&#](?:access_?token|token|api_?key|key|auth|code|sig|signature|secret|password|session|sid)=/i;
+
+// Code fences (also unterminated ones, in truncated text) and inline code spans
+const CODE = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+// Words after an @ that are annotations, decorators or doc tags when they appear in prose
+const NOT_USERS = new Set([
+  'override', 'deprecated', 'suppresswarnings', 'functionalinterface', 'test', 'autowired',
+  'component', 'injectable', 'input', 'output', 'ngmodule', 'entity', 'service', 'controller',
+  'bean', 'configuration', 'dataclass', 'property', 'staticmethod', 'classmethod',
+  'param', 'returns', 'return', 'throws', 'type', 'example', 'see', 'since', 'todo',
+]);
+
+/**
+ * Redact @-mentions and u/-mentions in prose. An @-mention starts a line or
+ * follows whitespace or a bracket; decorator calls ("@Component("), member
+ * access ("@app.route"), npm scopes ("@anthropic-ai/sdk") and the annotation
+ * names above are left alone.
+ */
+function redactMentions(prose: string): string {
+  return prose
+    .replace(/(^|[\s(\[])@([A-Za-z0-9_-]{2,})(?![\w/(-]|\.\w)/gm, (match, before, name) =>
+      NOT_USERS.has(name.toLowerCase()) ? match : `${before}@[user]`)
+    .replace(/(^|[^\w/])(\/?u\/)[A-Za-z0-9_-]{3,}/g, '$1$2[user]');
+}
+
+/**
+ * Strip personal data from text before analysis or publishing: emails,
+ * URLs with tokens in them, and @-mentions / u/-mentions of users (outside code)
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, '[email]')
+    .replace(/\bhttps?:\/\/[^\s<>()\[\]"']+/g, url => TOKEN_PARAMS.test(url) ? '[link]' : url)
+    .split(CODE)
+    .map((part, i) => i % 2 === 1 ? part : redactMentions(part))
+    .join('');
+}
@@ -0,0 +1,40 @@
+import { loadStudy } from './study';
+import { openStorage, Dataset } from './storage';
+import { pseudonymizePost } from './privacy';
+import { startStage } from './lineage';
+
+/**
+ * Apply the scrape-time privacy pass (see privacy.ts) to posts scraped
+ * before it existed: replaces stored usernames with their hashes (or drops
+ * them with AUTHOR_MODE=drop) and flags do-not-quote authors. Safe to re-run.
+ *
+ *   npm run pseudonymize -- --study claude-code-vs-codex
+ */
+
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+
+function main() {
+  console.log(`🕶️  Pseudonymizing authors in ${STUDY.title}\n`);
+
+  const datasets: Dataset[] = ['posts', 'clean'];
+  const lineage = startStage(STUDY, STORAGE, 'pseudonymize', datasets);
+
+  for (const dataset of datasets) {
+    if (!STORAGE.has(dataset)) continue;
+
+    const posts = STORAGE.loadPosts(dataset);
+    const updated = posts.map(pseudonymizePost);
+
+    const changed = updated.filter((post, i) => JSON.stringify(post) !== JSON.stringify(posts[i])).length;
+    STORAGE.writePosts(dataset, updated);
+
+    console.log(`  ✓ ${STORAGE.location(dataset)}: ${changed} of ${posts.length} posts updated`);
+  }
+
+  lineage.finish(datasets);
+
+  console.log(`\n✓ Done. Re-run "npm run analyze -- --publish" to refresh the dashboard copy`);
+}
+
+main();
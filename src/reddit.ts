@@ -0,0 +1,609 @@
+import Snoowrap from 'snoowrap';
+import { readFileSync, writeFileSync, renameSync, existsSync, mkdirSync } from 'fs';
+import { FailureKind } from './failures';
+import { cassetteMode, recorded } from './cassette';
+import { getFlag } from './args';
+import { RedditPost } from './types';
+
+/**
+ * Reddit client shared by discovery and scraping. Stages talk to the small
+ * RedditClient interface, which returns plain JSON, so the same calls can be
+ * served live or from a cassette:
+ *
+ *   --record   fetch live and save every result to cassettes/reddit.json
+ *   --replay   serve results from cassettes/reddit.json, no credentials needed
+ *
+ * Live backends (REDDIT_BACKEND or --backend):
+ *
+ *   oauth    Snoowrap with a script app's credentials (default)
+ *   public   anonymous reads of the public .json endpoints, no credentials,
+ *            at Reddit's much lower anonymous rate limit
+ *
+ * Both produce the same RedditThread, so scraped posts are identical.
+ * Requests are rate limited against the budget Reddit reports: every request
+ * is counted, and the x-ratelimit-remaining / x-ratelimit-reset headers are
+ * used to spread the remaining requests evenly over the rest of the window.
+ * The last known budget is kept in logs/, so running `discover` and `scrape`
+ * back to back continues from the same budget instead of running into 429s.
+ */
+
+// Cassette used by --record / --replay
+export const REDDIT_CASSETTE = 'reddit';
+
+export type SearchTime = 'week' | 'month' | 'year' | 'all';
+
+export type SearchSort = 'new' | 'top' | 'relevance';
+
+// A post (t3) as returned by the Reddit API, trimmed to the fields we use
+export interface RedditApiPost {
+  id: string;
+  name: string;              // fullname, t3_<id>
+  permalink: string;
+  title: string;
+  selftext: string;
+  score: number;
+  url: string;
+  author: string;
+  created_utc: number;
+  num_comments: number;
+  subreddit: string;
+  upvote_ratio: number;
+  link_flair_text: string | null;
+  stickied: boolean;
+}
+
+// A comment (t1) with its replies, fully expanded
+export interface RedditApiComment {
+  id: string;
+  parent_id: string;         // t1_<id> or t3_<id>
+  body: string;
+  score: number;
+  author: string;
+  created_utc: number;
+  edited: number | false;
+  is_submitter: boolean;
+  distinguished: string | null;
+  author_flair_text: string | null;
+  controversiality: number;
+  total_awards_received: number;
+  stickied: boolean;
+  replies: RedditApiComment[];
+}
+
+export interface RedditThread {
+  post: RedditApiPost;
+  comments: RedditApiComment[];
+}
+
+export interface RedditClient {
+  /** One page (100 posts) of r/<sub>/new */
+  listNew(subreddit: string, after?: string): Promise<RedditApiPost[]>;
+  /** One page (100 posts) of a search restricted to the subreddit */
+  search(subreddit: string, query: string, sort: SearchSort, time: SearchTime, after?: string): Promise<RedditApiPost[]>;
+  /** A post with its full comment tree ("load more" links expanded) */
+  fetchThread(postId: string): Promise<RedditThread>;
+}
+
+export type RedditBackend = 'oauth' | 'public';
+
+const BACKEND = (getFlag('backend') || process.env.REDDIT_BACKEND || 'oauth') as RedditBackend;
+
+// Anonymous requests have their own (per-IP) budget
+const RATELIMIT_FILE = BACKEND === 'public' ? 'logs/reddit_ratelimit_public.json' : 'logs/reddit_ratelimit.json';
+
+const PUBLIC_BASE_URL = 'https://www.reddit.com';
+
+// Requests held back from each window as a safety margin
+const RESERVE = 5;
+
+// Spacing until the first response tells us the real budget
+// (anonymous clients get about 10 requests a minute)
+const DEFAULT_DELAY_MS = BACKEND === 'public' ? 6000 : 600;
+
+interface RateLimitState {
+  remaining: number | null;   // requests left in the current window
+  resetAt: number;            // Date.now() when the window resets
+  updatedAt: number;
+}
+
+let state: RateLimitState = loadState();
+let requestCount = 0;
+let nextSlotAt = 0;
+const requestsByPost = new Map<string, number>();
+
+/**
+ * The saved budget, if its window is still open. An unreadable file (e.g. cut
+ * short by an interrupted run) means starting from the default spacing.
+ */
+function loadState(): RateLimitState {
+  if (existsSync(RATELIMIT_FILE)) {
+    try {
+      const saved: RateLimitState = JSON.parse(readFileSync(RATELIMIT_FILE, 'utf-8'));
+      if (typeof saved?.resetAt === 'number' && saved.resetAt > Date.now()) return saved;
+    } catch (e) {
+      console.log(`⚠️  Ignoring unreadable ${RATELIMIT_FILE}`);
+    }
+  }
+  return { remaining: null, resetAt: 0, updatedAt: 0 };
+}
+
+function saveState() {
+  if (!existsSync('logs')) {
+    mkdirSync('logs', { recursive: true });
+  }
+  // Written to a temp file and renamed, so the file is never left half-written
+  const tmpFile = `${RATELIMIT_FILE}.tmp`;
+  writeFileSync(tmpFile, JSON.stringify(state, null, 2) + '\n');
+  renameSync(tmpFile, RATELIMIT_FILE);
+}
+
+/**
+ * Reserve the next request slot and return when it may be sent. Slots are
+ * handed out synchronously, so concurrent callers queue up behind each other
+ * instead of all seeing the same free budget. The spacing spreads the
+ * remaining budget until the window resets.
+ */
+function reserveSlot(now: number): number {
+  let earliest = now;
+  let spacing = DEFAULT_DELAY_MS;
+
+  if (state.remaining !== null && state.resetAt > now) {
+    const usable = state.remaining - RESERVE;
+    if (usable <= 0) {
+      earliest = state.resetAt + 1000;
+    } else {
+      spacing = (state.resetAt - now) / usable;
+    }
+  }
+
+  const slot = Math.max(earliest, nextSlotAt);
+  nextSlotAt = slot + spacing;
+  if (state.remaining !== null) state.remaining--;
+  return slot;
+}
+
+/**
+ * The post a request belongs to: submission and comment-thread fetches use
+ * comments/<id>, "load more" expansions pass link_id=t3_<id>
+ */
+function requestPostId(options: any): string | null {
+  const linkId = options.qs?.link_id;
+  if (typeof linkId === 'string' && linkId.startsWith('t3_')) {
+    return linkId.slice(3).toLowerCase();
+  }
+  const match = String(options.uri || '').match(/^\/?comments\/([a-z0-9]+)/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Wait for a request slot, then count the request (against its post, if any)
+ */
+async function awaitSlot(postId: string | null) {
+  const now = Date.now();
+  const delay = reserveSlot(now) - now;
+  if (delay > 0) {
+    // Only worth mentioning once the budget is known, not for the initial spacing
+    if (delay > 5000 && state.remaining !== null) {
+      console.log(`  ⏳ Reddit rate limit: waiting ${Math.ceil(delay / 1000)}s (${state.remaining} requests left)`);
+    }
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  requestCount++;
+  if (postId) {
+    requestsByPost.set(postId, (requestsByPost.get(postId) || 0) + 1);
+  }
+}
+
+/**
+ * After a 429, hold off until the window resets (a minute if Reddit didn't say)
+ */
+function rateLimited() {
+  state = { remaining: 0, resetAt: Math.max(state.resetAt, Date.now() + 60_000), updatedAt: Date.now() };
+  saveState();
+}
+
+function updateFromHeaders(headers: Record<string, string> | undefined) {
+  if (!headers || !('x-ratelimit-remaining' in headers)) return;
+
+  state = {
+    remaining: Math.floor(parseFloat(headers['x-ratelimit-remaining'])),
+    resetAt: Date.now() + parseFloat(headers['x-ratelimit-reset']) * 1000,
+    updatedAt: Date.now(),
+  };
+  saveState();
+}
+
+class TrackedSnoowrap extends Snoowrap {
+  // Documented extension point: every request snoowrap makes goes through here
+  async rawRequest(options: any): Promise<any> {
+    // Token requests go to www.reddit.com and don't count against the budget
+    if (!String(options.baseUrl || '').includes('oauth.')) {
+      return super.rawRequest(options);
+    }
+
+    await awaitSlot(requestPostId(options));
+
+    const transform = options.transform;
+    return super.rawRequest({
+      ...options,
+      transform: (body: any, response: any) => {
+        updateFromHeaders(response?.headers);
+        return transform ? transform(body, response) : body;
+      },
+    }).catch((error: any) => {
+      updateFromHeaders(error?.response?.headers);
+      if (error?.statusCode === 429) {
+        rateLimited();
+      }
+      throw error;
+    });
+  }
+}
+
+function pickPost(raw: any): RedditApiPost {
+  return {
+    id: raw.id,
+    name: raw.name,
+    permalink: raw.permalink,
+    title: raw.title,
+    selftext: raw.selftext || '',
+    score: raw.score,
+    url: raw.url,
+    author: raw.author || '[deleted]',
+    created_utc: raw.created_utc,
+    num_comments: raw.num_comments,
+    subreddit: raw.subreddit,
+    upvote_ratio: raw.upvote_ratio,
+    link_flair_text: raw.link_flair_text ?? null,
+    stickied: !!raw.stickied,
+  };
+}
+
+function pickComment(raw: any): RedditApiComment {
+  return {
+    id: raw.id,
+    parent_id: raw.parent_id,
+    body: raw.body || '',
+    score: raw.score,
+    author: raw.author || '[deleted]',
+    created_utc: raw.created_utc,
+    edited: raw.edited || false,
+    is_submitter: !!raw.is_submitter,
+    distinguished: raw.distinguished ?? null,
+    author_flair_text: raw.author_flair_text ?? null,
+    controversiality: raw.controversiality ?? 0,
+    total_awards_received: raw.total_awards_received ?? 0,
+    stickied: !!raw.stickied,
+    replies: Array.isArray(raw.replies) ? raw.replies.map(pickComment) : [],
+  };
+}
+
+/**
+ * Live backend: Snoowrap with rate-limit tracking, OAuth script-app credentials
+ */
+function snoowrapClient(): RedditClient {
+  const missing = ['REDDIT_CLIENT_ID', 'REDDIT_CLIENT_SECRET', 'REDDIT_USERNAME', 'REDDIT_PASSWORD']
+    .filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    console.error(`❌ Missing ${missing.join(', ')} in .env file`);
+    console.error('   Create a script app at https://www.reddit.com/prefs/apps, use REDDIT_BACKEND=public, or run offline with --replay');
+    process.exit(1);
+  }
+
+  const reddit = new TrackedSnoowrap({
+    userAgent: process.env.REDDIT_USER_AGENT || 'lois-content-research/1.0.0',
+    clientId: process.env.REDDIT_CLIENT_ID!,
+    clientSecret: process.env.REDDIT_CLIENT_SECRET!,
+    username: process.env.REDDIT_USERNAME!,
+    password: process.env.REDDIT_PASSWORD!,
+  });
+
+  // No retries here: scrape.ts retries transient errors (429s included, which
+  // also pause the request budget) with its own backoff and failure records
+  reddit.config({
+    continueAfterRatelimitError: true,
+    retryErrorCodes: [],
+  });
+
+  return {
+    async listNew(subreddit, after) {
+      const listing = await reddit.getSubreddit(subreddit).getNew({ limit: 100, after });
+      return listing.toJSON().map(pickPost);
+    },
+
+    async search(subreddit, query, sort, time, after) {
+      const listing = await reddit.search({ query, subreddit, restrictSr: true, sort, time, limit: 100, after });
+      return listing.toJSON().map(pickPost);
+    },
+
+    async fetchThread(postId) {
+      // Snoowrap's content objects are thenables typed as resolving to
+      // themselves, which TypeScript can't await (TS1062)
+      const submission: any = await (reddit.getSubmission(postId) as any).fetch();
+
+      // Fetch all comments (expanding "load more" links, one request each)
+      await submission.expandReplies({ limit: Infinity, depth: Infinity });
+
+      const json = submission.toJSON();
+      return { post: pickPost(json), comments: (json.comments || []).map(pickComment) };
+    },
+  };
+}
+
+/**
+ * GET a public .json endpoint anonymously. Errors carry the status and body
+ * the way Snoowrap's do, so classifyRedditError handles both backends.
+ */
+async function getPublicJson(path: string, params: Record<string, string>, postId: string | null = null): Promise<any> {
+  const url = new URL(`${PUBLIC_BASE_URL}${path}`);
+  for (const [key, value] of Object.entries({ ...params, raw_json: '1' })) {
+    url.searchParams.set(key, value);
+  }
+
+  await awaitSlot(postId);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { 'User-Agent': process.env.REDDIT_USER_AGENT || 'lois-content-research/1.0.0' },
+    });
+  } catch (error: any) {
+    throw Object.assign(new Error(`Request to ${url} failed: ${error.message}`), { name: 'RequestError' });
+  }
+
+  updateFromHeaders(Object.fromEntries(response.headers));
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      rateLimited();
+    }
+    const text = await response.text();
+    let body: any = null;
+    try {
+      body = JSON.parse(text);
+    } catch (e) {
+      // Not JSON (e.g. an HTML error page)
+    }
+    throw Object.assign(new Error(`HTTP ${response.status} from ${url} - ${text.slice(0, 200)}`), {
+      statusCode: response.status,
+      error: body,
+    });
+  }
+
+  return response.json();
+}
+
+/**
+ * Live backend without credentials: the public .json endpoints
+ */
+function publicJsonClient(): RedditClient {
+  const listingPosts = (listing: any): RedditApiPost[] =>
+    listing.data.children.map((child: any) => pickPost(child.data));
+
+  /**
+   * Turn listing children into comments, expanding "load more" stubs in place
+   */
+  async function expandComments(things: any[], postId: string): Promise<RedditApiComment[]> {
+    const comments: RedditApiComment[] = [];
+
+    for (const thing of things) {
+      if (thing.kind === 't1') {
+        const replies = thing.data.replies ? thing.data.replies.data.children : [];
+        comments.push(pickComment({ ...thing.data, replies: await expandComments(replies, postId) }));
+      } else if (thing.kind === 'more') {
+        comments.push(...await fetchMore(thing.data, postId));
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * Load the comments behind a "more" stub. An empty stub is a "continue this
+   * thread" link: re-fetch the thread rooted at the parent comment instead.
+   */
+  async function fetchMore(more: { parent_id: string; children: string[] }, postId: string): Promise<RedditApiComment[]> {
+    if (more.children.length === 0) {
+      const [, listing] = await getPublicJson(`/comments/${postId}.json`, { comment: more.parent_id.slice(3) }, postId);
+      const parent = listing.data.children[0];
+      return expandComments(parent?.data.replies ? parent.data.replies.data.children : [], postId);
+    }
+
+    // morechildren returns a flat list (at most 100 IDs per request); rebuild the tree from parent_id
+    const things: any[] = [];
+    for (let i = 0; i < more.children.length; i += 100) {
+      const response = await getPublicJson('/api/morechildren.json', {
+        api_type: 'json',
+        link_id: `t3_${postId}`,
+        children: more.children.slice(i, i + 100).join(','),
+      }, postId);
+      things.push(...response.json.data.things);
+    }
+
+    const byParent = new Map<string, any[]>();
+    for (const thing of things) {
+      const siblings = byParent.get(thing.data.parent_id) || [];
+      siblings.push(thing);
+      byParent.set(thing.data.parent_id, siblings);
+    }
+
+    const attach = (thing: any): any => thing.kind !== 't1' ? thing : {
+      ...thing,
+      data: { ...thing.data, replies: { data: { children: (byParent.get(thing.data.name) || []).map(attach) } } },
+    };
+
+    return expandComments((byParent.get(more.parent_id) || []).map(attach), postId);
+  }
+
+  return {
+    async listNew(subreddit, after) {
+      return listingPosts(await getPublicJson(`/r/${subreddit}/new.json`, { limit: '100', ...(after && { after }) }));
+    },
+
+    async search(subreddit, query, sort, time, after) {
+      return listingPosts(await getPublicJson(`/r/${subreddit}/search.json`, {
+        q: query,
+        restrict_sr: 'true',
+        sort,
+        t: time,
+        syntax: 'plain',
+        limit: '100',
+        ...(after && { after }),
+      }));
+    },
+
+    async fetchThread(postId) {
+      const [postListing, commentListing] = await getPublicJson(`/comments/${postId}.json`, { limit: '500' }, postId);
+      return {
+        post: pickPost(postListing.data.children[0].data),
+        comments: await expandComments(commentListing.data.children, postId),
+      };
+    },
+  };
+}
+
+/**
+ * Record/replay wrapper; `live` is null when replaying
+ */
+function cassetteClient(live: RedditClient | null): RedditClient {
+  return {
+    listNew: (subreddit, after) =>
+      recorded(REDDIT_CASSETTE, `new r/${subreddit} after=${after || ''}`, () => live!.listNew(subreddit, after)),
+    search: (subreddit, query, sort, time, after) =>
+      recorded(REDDIT_CASSETTE, `search r/${subreddit} sort=${sort} t=${time} after=${after || ''} q=${query}`, () => live!.search(subreddit, query, sort, time, after)),
+    fetchThread: postId =>
+      recorded(REDDIT_CASSETTE, `thread ${postId}`, () => live!.fetchThread(postId)),
+  };
+}
+
+/**
+ * Create the Reddit client for the current cassette mode
+ */
+export function createRedditClient(): RedditClient {
+  const mode = cassetteMode();
+  if (mode === 'replay') {
+    return cassetteClient(null);
+  }
+
+  if (BACKEND !== 'oauth' && BACKEND !== 'public') {
+    console.error(`❌ Unknown Reddit backend "${BACKEND}" (expected oauth or public)`);
+    process.exit(1);
+  }
+
+  const live = BACKEND === 'public' ? publicJsonClient() : snoowrapClient();
+  return mode === 'record' ? cassetteClient(live) : live;
+}
+
+/**
+ * Flatten a thread into a RedditPost. Deleted/removed comments stay in the
+ * tree as placeholders so their replies keep a parent.
+ */
+export function toRedditPost(thread: RedditThread): RedditPost {
+  const { post } = thread;
+  const comments: RedditPost['comments'] = [];
+
+  function extractComments(replies: RedditApiComment[], depth: number) {
+    for (const comment of replies) {
+      const deleted = comment.body === '[removed]' ? 'removed'
+        : (!comment.body || comment.body === '[deleted]') ? 'deleted'
+        : undefined;
+
+      // parent_id is "t1_xxxxx" for replies, "t3_xxxxx" (the post) for top-level comments
+      const parentId = comment.parent_id?.startsWith('t1_') ? comment.parent_id.slice(3) : null;
+
+      comments.push({
+        id: comment.id,
+        parentId,
+        postId: post.id,
+        depth,
+        text: deleted ? '' : comment.body,
+        score: comment.score,
+        author: comment.author || '[deleted]',
+        created: comment.created_utc,
+        ...(deleted && { deleted }),
+        edited: comment.edited || null,
+        isSubmitter: comment.is_submitter,
+        distinguished: comment.distinguished,
+        authorFlair: comment.author_flair_text,
+        controversiality: comment.controversiality,
+        awards: comment.total_awards_received,
+        stickied: comment.stickied,
+      });
+
+      extractComments(comment.replies, depth + 1);
+    }
+  }
+
+  extractComments(thread.comments, 0);
+
+  return {
+    postId: post.id,
+    subreddit: post.subreddit,
+    title: post.title,
+    selftext: post.selftext,
+    score: post.score,
+    url: post.url,
+    permalink: `https://reddit.com${post.permalink}`,
+    author: post.author,
+    created: post.created_utc,
+    numComments: post.num_comments,
+    comments, // All comments, no artificial limit
+    upvoteRatio: post.upvote_ratio,
+    linkFlair: post.link_flair_text,
+    stickied: post.stickied,
+  };
+}
+
+/**
+ * Classify an error thrown by a Reddit request. Reddit explains 403/404s on
+ * subreddits with a `reason` in the response body.
+ */
+export function classifyRedditError(error: any): FailureKind {
+  const status: number | undefined = error?.statusCode;
+  const reason = String(error?.error?.reason || '').toLowerCase();
+
+  if (reason === 'banned') return 'banned';
+  if (reason === 'private' || reason === 'quarantined' || reason === 'gold_only') return 'private';
+  if (status === 404) return 'not_found';
+  if (status === 403) return 'private';
+  if (status === 429 || (status !== undefined && status >= 500)) return 'transient';
+  if (error?.name === 'RequestError' || error?.name === 'RateLimitError') return 'transient';
+  return 'unknown';
+}
+
+/**
+ * Reddit API requests made by this process so far
+ */
+export function redditRequestCount(): number {
+  return requestCount;
+}
+
+/**
+ * Reddit API requests made for one post (submission plus comment expansion),
+ * correct even when several posts are scraped at once
+ */
+export function postRequestCount(postId: string): number {
+  return requestsByPost.get(postId.toLowerCase()) || 0;
+}
+
+/**
+ * Current budget, for end-of-run reports
+ */
+export function describeRateLimit(): string {
+  if (cassetteMode() === 'replay') {
+    return 'not used (replaying cassette)';
+  }
+  if (state.remaining === null) {
+    return 'unknown (no responses yet)';
+  }
+  const resetIn = Math.max(0, Math.round((state.resetAt - Date.now()) / 1000));
+  return `${state.remaining} requests left, window resets in ${resetIn}s`;
+}
+
+/**
+ * Backend in use (--backend / REDDIT_BACKEND), for run records
+ */
+export function redditBackend(): RedditBackend {
+  return BACKEND;
+}
@@ -0,0 +1,77 @@
+import { readFileSync, writeFileSync, existsSync, renameSync, unlinkSync } from 'fs';
+import { Study, studyFile } from './study';
+
+/**
+ * Dead-letter file for analyses that failed schema validation even after the
+ * model was asked to repair them: <dataDir>/analysis_rejects.jsonl holds one
+ * record per comment with the validation errors and the last output, so bad
+ * results never reach sentiment_analysis.jsonl. Rejected comments are skipped
+ * by later runs until `analyze --retry-rejects`.
+ */
+
+export interface AnalysisReject {
+  commentId: string;
+  postId: string;
+  permalink: string;
+  model: string;
+  errors: string[];        // validation errors of the last attempt
+  output: unknown;         // the model's last tool input
+  attempts: number;
+  rejectedAt: number;
+}
+
+export function rejectsFile(study: Study): string {
+  return studyFile(study, 'analysis_rejects.jsonl');
+}
+
+export function loadRejects(study: Study): AnalysisReject[] {
+  const file = rejectsFile(study);
+  if (!existsSync(file)) {
+    return [];
+  }
+
+  const rejects: AnalysisReject[] = [];
+  for (const line of readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      rejects.push(JSON.parse(line));
+    } catch (e) {
+      // Skip malformed lines
+    }
+  }
+  return rejects;
+}
+
+/**
+ * Rewrite the rejects file atomically; removes it once empty
+ */
+function writeRejects(study: Study, rejects: AnalysisReject[]) {
+  const file = rejectsFile(study);
+  if (rejects.length === 0) {
+    if (existsSync(file)) unlinkSync(file);
+    return;
+  }
+
+  const tmpFile = `${file}.tmp`;
+  writeFileSync(tmpFile, rejects.map(r => JSON.stringify(r) + '\n').join(''));
+  renameSync(tmpFile, file);
+}
+
+/**
+ * Record a rejected analysis, replacing any earlier reject of the comment
+ */
+export function recordReject(study: Study, reject: AnalysisReject) {
+  const previous = loadRejects(study).filter(r => r.commentId !== reject.commentId);
+  writeRejects(study, [...previous, reject]);
+}
+
+/**
+ * Drop a comment from the rejects file once it was analyzed
+ */
+export function clearReject(study: Study, commentId: string) {
+  const rejects = loadRejects(study);
+  const remaining = rejects.filter(r => r.commentId !== commentId);
+  if (remaining.length !== rejects.length) {
+    writeRejects(study, remaining);
+  }
+}
@@ -0,0 +1,57 @@
+import { loadStudy } from './study';
+import { discoveredKey, discoveryQueries, mergeDiscovered, readDiscovered, writeDiscovered } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+import { postKey } from './urls';
+
+/**
+ * One-off repair for discovered URLs written before discovery
+ * deduped on canonical post keys: collapses every URL variant of a thread
+ * into one record and keeps the provenance of all of them in `queries`.
+ */
+
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+
+function main() {
+  console.log(`🔧 Repairing ${STORAGE.location('discovered')}...\n`);
+
+  if (!STORAGE.has('discovered')) {
+    console.error(`❌ ${STORAGE.location('discovered')} not found`);
+    process.exit(1);
+  }
+
+  const lineage = startStage(STUDY, STORAGE, 'repair:discovered', ['discovered']);
+
+  // Malformed JSONL lines are skipped here, and dropped by the rewrite below
+  const records = readDiscovered(STORAGE);
+
+  const merged = mergeDiscovered(records);
+  const unrecognised = merged.filter(record => !postKey(record.url));
+
+  // Report the threads that had more than one record
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    const key = discoveredKey(record.url);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  for (const record of merged) {
+    const count = counts.get(discoveredKey(record.url))!;
+    if (count > 1) {
+      console.log(`  ⊕ ${record.title} (${count} records, found by ${discoveryQueries(record).join(', ')})`);
+    }
+  }
+
+  writeDiscovered(STORAGE, merged);
+  lineage.finish(['discovered']);
+
+  console.log(`\n✓ Repair complete!`);
+  console.log(`  Records: ${records.length} → ${merged.length}`);
+  console.log(`  Duplicates collapsed: ${records.length - merged.length}`);
+  if (unrecognised.length > 0) {
+    console.log(`  ⚠️  ${unrecognised.length} URLs are not recognised threads (kept as-is)`);
+  }
+  console.log(`  Saved to: ${STORAGE.location('discovered')}`);
+}
+
+main();
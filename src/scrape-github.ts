@@ -0,0 +1,309 @@
+import { config } from 'dotenv';
+import { loadStudy } from './study';
+import { cassetteMode } from './cassette';
+import {
+  GitHubRef, GitHubReactions, GitHubReactionGroup,
+  extractGitHubRef, githubGet, githubGraphQL, githubPostId, reactionScore, reactionGroupScore,
+} from './github';
+import { DiscoveredURL, RedditPost } from './types';
+import { loadDiscovered, prescreenRejected } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+import { pseudonymizePost } from './privacy';
+import { hasFlag } from './args';
+import { postKey } from './urls';
+
+config();
+
+/**
+ * Scrape GitHub issues and discussions found by discover-github.ts into the
+ * RedditPost shape: repo -> subreddit, net 👍 reactions -> score.
+ * Issue comments are flat (depth 0); discussion replies are depth 1.
+ *
+ * Offline: `npm run scrape:github -- --replay`, or run `npm run fixture-server`
+ * and set GITHUB_API_URL=http://localhost:4010 (plus --as-of, see fixture-server.ts)
+ */
+
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+
+interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  user: { login: string } | null;
+  created_at: string;
+  comments: number;
+  reactions?: GitHubReactions;
+}
+
+interface GitHubIssueComment {
+  id: number;
+  body: string | null;
+  user: { login: string } | null;
+  created_at: string;
+  reactions?: GitHubReactions;
+}
+
+interface GraphQLComment {
+  databaseId: number;
+  body: string;
+  author: { login: string } | null;
+  createdAt: string;
+  reactionGroups: GitHubReactionGroup[];
+}
+
+interface DiscussionResponse {
+  repository: {
+    discussion: {
+      number: number;
+      title: string;
+      body: string;
+      url: string;
+      author: { login: string } | null;
+      createdAt: string;
+      reactionGroups: GitHubReactionGroup[];
+      comments: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: Array<GraphQLComment & { replies: { nodes: GraphQLComment[] } }>;
+      };
+    };
+  };
+}
+
+const DISCUSSION_QUERY = `
+  query($owner: String!, $name: String!, $number: Int!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      discussion(number: $number) {
+        number title body url createdAt
+        author { login }
+        reactionGroups { content reactors { totalCount } }
+        comments(first: 50, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            databaseId body createdAt
+            author { login }
+            reactionGroups { content reactors { totalCount } }
+            replies(first: 100) {
+              nodes {
+                databaseId body createdAt
+                author { login }
+                reactionGroups { content reactors { totalCount } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }`;
+
+/**
+ * Load discovered GitHub URLs from JSONL file
+ */
+function loadDiscoveredURLs(): DiscoveredURL[] {
+  if (!STORAGE.has('discovered')) {
+    console.error(`❌ No discovered URLs found: ${STORAGE.location('discovered')}`);
+    console.error('   Run "npm run discover:github" first to discover threads');
+    return [];
+  }
+
+  // One record per post, however many URL variants were discovered
+  return loadDiscovered(STORAGE)
+    .filter(record => postKey(record.url)?.startsWith('github:'));
+}
+
+function toUnixSeconds(iso: string): number {
+  return Math.floor(Date.parse(iso) / 1000);
+}
+
+/**
+ * Fetch an issue and all of its comments
+ */
+async function scrapeIssue(ref: GitHubRef): Promise<RedditPost> {
+  const issue = await githubGet<GitHubIssue>(`/repos/${ref.repo}/issues/${ref.number}`);
+  const postId = githubPostId(ref);
+  const comments: RedditPost['comments'] = [];
+
+  for (let page = 1; issue.comments > 0; page++) {
+    const batch = await githubGet<GitHubIssueComment[]>(
+      `/repos/${ref.repo}/issues/${ref.number}/comments?per_page=100&page=${page}`
+    );
+
+    for (const comment of batch) {
+      if (!comment.body?.trim()) continue;
+
+      comments.push({
+        id: comment.id.toString(),
+        parentId: null,
+        postId,
+        depth: 0,
+        text: comment.body,
+        score: reactionScore(comment.reactions),
+        author: comment.user?.login || '[deleted]',
+        created: toUnixSeconds(comment.created_at),
+      });
+    }
+
+    if (batch.length < 100) break;
+  }
+
+  return {
+    postId,
+    subreddit: ref.repo,
+    title: issue.title,
+    selftext: issue.body || '',
+    score: reactionScore(issue.reactions),
+    url: issue.html_url,
+    // Comment links are `${permalink}${comment.id}`
+    permalink: `${issue.html_url}#issuecomment-`,
+    author: issue.user?.login || '[deleted]',
+    created: toUnixSeconds(issue.created_at),
+    numComments: comments.length,
+    comments,
+  };
+}
+
+/**
+ * Fetch a discussion with its comments and replies (GraphQL)
+ */
+async function scrapeDiscussion(ref: GitHubRef): Promise<RedditPost> {
+  const [owner, name] = ref.repo.split('/');
+  const postId = githubPostId(ref);
+  const comments: RedditPost['comments'] = [];
+
+  const toComment = (c: GraphQLComment, parentId: string | null, depth: number) => ({
+    id: c.databaseId.toString(),
+    parentId,
+    postId,
+    depth,
+    text: c.body,
+    score: reactionGroupScore(c.reactionGroups),
+    author: c.author?.login || '[deleted]',
+    created: toUnixSeconds(c.createdAt),
+  });
+
+  let after: string | null = null;
+  let discussion: DiscussionResponse['repository']['discussion'];
+
+  do {
+    const data: DiscussionResponse = await githubGraphQL<DiscussionResponse>(
+      DISCUSSION_QUERY, { owner, name, number: ref.number, after }
+    );
+    discussion = data.repository.discussion;
+
+    for (const comment of discussion.comments.nodes) {
+      const top = toComment(comment, null, 0);
+      if (top.text.trim()) comments.push(top);
+      for (const reply of comment.replies.nodes) {
+        const child = toComment(reply, top.id, 1);
+        if (child.text.trim()) comments.push(child);
+      }
+    }
+
+    after = discussion.comments.pageInfo.hasNextPage ? discussion.comments.pageInfo.endCursor : null;
+  } while (after);
+
+  return {
+    postId,
+    subreddit: ref.repo,
+    title: discussion.title,
+    selftext: discussion.body || '',
+    score: reactionGroupScore(discussion.reactionGroups),
+    url: discussion.url,
+    // Comment links are `${permalink}${comment.id}`
+    permalink: `${discussion.url}#discussioncomment-`,
+    author: discussion.author?.login || '[deleted]',
+    created: toUnixSeconds(discussion.createdAt),
+    numComments: comments.length,
+    comments,
+  };
+}
+
+/**
+ * Scrape a single issue or discussion
+ */
+async function scrapeThread(url: string): Promise<RedditPost | null> {
+  const ref = extractGitHubRef(url);
+  if (!ref) {
+    console.error(`  ✗ Invalid URL: ${url}`);
+    return null;
+  }
+
+  try {
+    const post = ref.kind === 'issues' ? await scrapeIssue(ref) : await scrapeDiscussion(ref);
+    console.log(`  ✓ ${post.title} (${post.score} 👍, ${post.numComments} comments)`);
+    return post;
+  } catch (error: any) {
+    console.error(`  ✗ Error fetching ${url}: ${error.message}`);
+    return null;
+  }
+}
+
+async function main() {
+  console.log(`📥 Starting GitHub scrape from discovered URLs (${STUDY.title})...\n`);
+
+  const startTime = Date.now();
+  const discoveredURLs = loadDiscoveredURLs();
+
+  if (discoveredURLs.length === 0) {
+    console.log('No GitHub URLs to scrape. Exiting.');
+    return;
+  }
+
+  console.log(`Found ${discoveredURLs.length} discovered GitHub URLs\n`);
+
+  const lineage = startStage(STUDY, STORAGE, 'scrape:github', ['discovered', 'posts'], {
+    force: hasFlag('force'),
+    cassette: cassetteMode(),
+  });
+
+  let scraped = 0;
+  let skipped = 0;
+  let totalComments = 0;
+
+  for (const discovered of discoveredURLs) {
+    const postId = githubPostId(extractGitHubRef(discovered.url)!);
+
+    if (STORAGE.hasPost('posts', postId)) {
+      console.log(`↩ Already scraped: ${discovered.title}`);
+      skipped++;
+      continue;
+    }
+
+    if (prescreenRejected(discovered) && !hasFlag('force')) {
+      console.log(`⊘ Rejected by pre-screen: ${discovered.title}`);
+      skipped++;
+      continue;
+    }
+
+    const post = await scrapeThread(discovered.url);
+
+    if (post) {
+      // Stored with authors pseudonymized
+      STORAGE.appendPost('posts', pseudonymizePost(post));
+      totalComments += post.comments.length;
+      scraped++;
+    } else {
+      skipped++;
+    }
+
+    // Rate limiting (REST allows 5000 requests/hour authenticated)
+    if (cassetteMode() !== 'replay') {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  lineage.finish(['posts']);
+
+  const totalTime = Math.round((Date.now() - startTime) / 1000);
+
+  console.log(`\n✓ Scraping complete!`);
+  console.log(`  Time: ${totalTime}s`);
+  console.log(`  Scraped: ${scraped} threads`);
+  console.log(`  Skipped: ${skipped} threads`);
+  console.log(`  Total comments: ${totalComments} (avg ${scraped > 0 ? (totalComments / scraped).toFixed(0) : 0} per thread)`);
+  console.log(`  Data saved to: ${STORAGE.location('posts')}`);
+}
+
+main().catch(console.error);
@@ -0,0 +1,180 @@
+import { config } from 'dotenv';
+import { loadStudy } from './study';
+import { cassetteMode, fetchJson } from './cassette';
+import { HN_API_URL, HN_CASSETTE, HNItem, extractHNId, htmlToText } from './hn';
+import { DiscoveredURL, RedditPost } from './types';
+import { loadDiscovered, prescreenRejected } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+import { pseudonymizePost } from './privacy';
+import { hasFlag } from './args';
+import { postKey } from './urls';
+
+config();
+
+/**
+ * Scrape Hacker News threads found by discover-hn.ts into the same
+ * RedditPost shape (and the same output file) as scrape.ts.
+ *
+ * Offline: `npm run scrape:hn -- --replay` serves cassettes/hn.json
+ */
+
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+
+/**
+ * Load discovered HN URLs from JSONL file
+ */
+function loadDiscoveredURLs(): DiscoveredURL[] {
+  if (!STORAGE.has('discovered')) {
+    console.error(`❌ No discovered URLs found: ${STORAGE.location('discovered')}`);
+    console.error('   Run "npm run discover:hn" first to discover threads');
+    return [];
+  }
+
+  // One record per post, however many URL variants were discovered
+  return loadDiscovered(STORAGE)
+    .filter(record => postKey(record.url)?.startsWith('hn:'));
+}
+
+/**
+ * Convert an HN item tree into a RedditPost
+ */
+function toRedditPost(item: HNItem): RedditPost {
+  const postId = item.id.toString();
+  const comments: RedditPost['comments'] = [];
+
+  function extractComments(children: HNItem[], parentId: string | null, depth: number) {
+    for (const child of children) {
+      // Deleted/dead comments have no author or text; keep a placeholder for their replies
+      const deleted = !child.author || !child.text;
+
+      comments.push({
+        id: child.id.toString(),
+        parentId,
+        postId,
+        depth,
+        text: deleted ? '' : htmlToText(child.text!),
+        score: child.points ?? 0,
+        author: child.author || '[deleted]',
+        created: child.created_at_i,
+        ...(deleted && { deleted: 'deleted' as const }),
+      });
+
+      if (child.children && child.children.length > 0) {
+        extractComments(child.children, child.id.toString(), depth + 1);
+      }
+    }
+  }
+
+  extractComments(item.children || [], null, 0);
+
+  const threadUrl = `https://news.ycombinator.com/item?id=${postId}`;
+
+  return {
+    postId,
+    subreddit: 'hackernews',
+    title: item.title || '',
+    selftext: htmlToText(item.text),
+    score: item.points ?? 0,
+    url: item.url || threadUrl,
+    // Comment links are `${permalink}${comment.id}`; HN anchors comments by id on the thread page
+    permalink: `${threadUrl}#`,
+    author: item.author || '[deleted]',
+    created: item.created_at_i,
+    numComments: comments.length,
+    comments,
+  };
+}
+
+/**
+ * Scrape a single HN thread with full comment tree
+ */
+async function scrapeThread(url: string): Promise<RedditPost | null> {
+  const id = extractHNId(url);
+  if (!id) {
+    console.error(`  ✗ Invalid URL: ${url}`);
+    return null;
+  }
+
+  try {
+    // Algolia returns the whole tree in one call
+    const item = await fetchJson<HNItem>(HN_CASSETTE, `${HN_API_URL}/items/${id}`);
+    const post = toRedditPost(item);
+
+    console.log(`  ✓ ${post.title} (${post.score} ↑, ${post.numComments} comments)`);
+
+    return post;
+  } catch (error: any) {
+    console.error(`  ✗ Error fetching ${url}: ${error.message}`);
+    return null;
+  }
+}
+
+async function main() {
+  console.log(`📥 Starting Hacker News scrape from discovered URLs (${STUDY.title})...\n`);
+
+  const startTime = Date.now();
+  const discoveredURLs = loadDiscoveredURLs();
+
+  if (discoveredURLs.length === 0) {
+    console.log('No HN URLs to scrape. Exiting.');
+    return;
+  }
+
+  console.log(`Found ${discoveredURLs.length} discovered HN URLs\n`);
+
+  const lineage = startStage(STUDY, STORAGE, 'scrape:hn', ['discovered', 'posts'], {
+    force: hasFlag('force'),
+    cassette: cassetteMode(),
+  });
+
+  let scraped = 0;
+  let skipped = 0;
+  let totalComments = 0;
+
+  for (const discovered of discoveredURLs) {
+    const postId = extractHNId(discovered.url)!;
+
+    if (STORAGE.hasPost('posts', postId)) {
+      console.log(`↩ Already scraped: ${discovered.title}`);
+      skipped++;
+      continue;
+    }
+
+    if (prescreenRejected(discovered) && !hasFlag('force')) {
+      console.log(`⊘ Rejected by pre-screen: ${discovered.title}`);
+      skipped++;
+      continue;
+    }
+
+    const post = await scrapeThread(discovered.url);
+
+    if (post) {
+      // Stored with authors pseudonymized
+      STORAGE.appendPost('posts', pseudonymizePost(post));
+      totalComments += post.comments.length;
+      scraped++;
+    } else {
+      skipped++;
+    }
+
+    // Rate limiting
+    if (cassetteMode() !== 'replay') {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  lineage.finish(['posts']);
+
+  const totalTime = Math.round((Date.now() - startTime) / 1000);
+
+  console.log(`\n✓ Scraping complete!`);
+  console.log(`  Time: ${totalTime}s`);
+  console.log(`  Scraped: ${scraped} threads`);
+  console.log(`  Skipped: ${skipped} threads`);
+  console.log(`  Total comments: ${totalComments} (avg ${scraped > 0 ? (totalComments / scraped).toFixed(0) : 0} per thread)`);
+  console.log(`  Data saved to: ${STORAGE.location('posts')}`);
+}
+
+main().catch(console.error);
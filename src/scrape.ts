@@ -1,16 +1,21 @@
-import Snoowrap from 'snoowrap';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
 import { config } from 'dotenv';
+import { loadStudy, studyFile } from './study';
+import { DiscoveredURL, RedditComment, RedditPost } from './types';
+import { loadDiscovered, prescreenRejected } from './discovered';
+import { openStorage } from './storage';
+import { startStage } from './lineage';
+import { pseudonymizePost } from './privacy';
+import { hasFlag, getFlag } from './args';
+import { appendSnapshots } from './snapshots';
+import { extractRedditPostId, postKey } from './urls';
+import { createRedditClient, toRedditPost, postRequestCount, describeRateLimit, redditBackend, classifyRedditError, REDDIT_CASSETTE } from './reddit';
+import { cassetteMode, cassetteNow } from './cassette';
+import { ScrapeFailure, FailureKind, loadFailures, recordFailure, clearFailure, isPermanent } from './failures';
+import { runPool } from './pool';
 
 config();
 
-const reddit = new Snoowrap({
-  userAgent: process.env.REDDIT_USER_AGENT || 'lois-content-research/1.0.0',
-  clientId: process.env.REDDIT_CLIENT_ID!,
-  clientSecret: process.env.REDDIT_CLIENT_SECRET!,
-  username: process.env.REDDIT_USERNAME!,
-  password: process.env.REDDIT_PASSWORD!,
-});
+const reddit = createRedditClient();
 
 // Research notes:
 // "claude code" "codex" site:reddit.com
@@ -21,256 +26,369 @@ const reddit = new Snoowrap({
 // ['ClaudeAI', 'Cursor', 'ChatGPTCoding', 'Anthropic', 'OpenAI', 'LLMDevs',
 //  'vibecoding', 'codex', 'mcp', 'AI_Agents', 'OpenaiCodex', 'VibeCodeDevs']
 
-const DISCOVERED_URLS_FILE = 'discovered_urls.jsonl';
-const OUTPUT_FILE = 'reddit_data.jsonl';
-
-interface RedditPost {
-  postId: string;
-  subreddit: string;
-  title: string;
-  selftext: string;
-  score: number;
-  url: string;
-  permalink: string;
-  author: string;
-  created: number;
-  numComments: number;
-  comments: Array<{
-    id: string;
-    parentId: string | null;  // null = top-level, otherwise parent comment ID
-    postId: string;            // which post this comment belongs to
-    depth: number;             // 0 = top-level, 1 = reply, 2 = reply to reply, etc.
-    text: string;
-    score: number;
-    author: string;
-    created: number;
-  }>;
-}
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+const SNAPSHOTS_FILE = studyFile(STUDY, 'score_snapshots.jsonl');
+const FAILURES_FILE = studyFile(STUDY, 'scrape_failures.jsonl');
 
-interface DiscoveredURL {
-  url: string;
-  title: string;
-  snippet: string;
-  discoveredAt: number;
-  query: string;
-}
+// Refresh mode (--refresh): re-fetch scraped posts younger than this many days
+const REFRESH_MAX_AGE_DAYS = parseFloat(getFlag('max-age-days') || process.env.REFRESH_MAX_AGE_DAYS || '7');
 
-/**
- * Extract post ID from Reddit URL
- */
-function extractPostId(url: string): string | null {
-  const match = url.match(/comments\/(\w+)/);
-  return match ? match[1] : null;
+// Posts scraped at once (--concurrency); requests still share one rate-limit budget
+const CONCURRENCY = Math.max(1, parseInt(getFlag('concurrency') || process.env.SCRAPE_CONCURRENCY || '4', 10) || 1);
+
+// Transient errors (5xx, timeouts) are retried with exponential backoff: 2s, 4s, 8s
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+
+interface ScrapeOutcome {
+  post: RedditPost | null;
+  apiCalls: number;
+  failure: ScrapeFailure | null;
 }
 
 /**
- * Load discovered URLs from JSONL file
+ * Load discovered Reddit URLs from JSONL file (other sources have their own scrapers)
  */
 function loadDiscoveredURLs(): DiscoveredURL[] {
-  if (!existsSync(DISCOVERED_URLS_FILE)) {
-    console.error(`❌ No discovered URLs file found: ${DISCOVERED_URLS_FILE}`);
+  if (!STORAGE.has('discovered')) {
+    console.error(`❌ No discovered URLs found: ${STORAGE.location('discovered')}`);
     console.error('   Run "npm run discover" first to discover threads');
     return [];
   }
 
-  const lines = readFileSync(DISCOVERED_URLS_FILE, 'utf-8')
-    .split('\n')
-    .filter(l => l.trim());
+  // One record per post, however many URL variants were discovered
+  return loadDiscovered(STORAGE)
+    .filter(record => postKey(record.url)?.startsWith('reddit:'));
+}
 
-  return lines.map(line => JSON.parse(line));
+/**
+ * Fetch a single Reddit post with full comment tree (authors pseudonymized)
+ */
+async function fetchPost(postId: string): Promise<RedditPost> {
+  const post = pseudonymizePost(toRedditPost(await reddit.fetchThread(postId)));
+  console.log(`  ✓ ${post.title} (${post.score} ↑, ${post.numComments} comments)`);
+  return post;
 }
 
 /**
- * Scrape a single Reddit post with full comment tree
- * Returns: [post data, API calls made]
+ * Scrape a post, retrying transient errors with exponential backoff.
+ * A post that still fails comes back with a failure record.
  */
-async function scrapePost(url: string): Promise<[RedditPost | null, number]> {
-  const postId = extractPostId(url);
+async function scrapePost(url: string, title: string): Promise<ScrapeOutcome> {
+  const postId = extractRedditPostId(url);
   if (!postId) {
     console.error(`  ✗ Invalid URL: ${url}`);
-    return [null, 0];
+    return { post: null, apiCalls: 0, failure: null };
   }
 
-  try {
-    let apiCalls = 0;
-
-    // API call 1: fetch submission
-    const submission = await reddit.getSubmission(postId).fetch();
-    apiCalls++;
-
-    console.log(`  ✓ ${submission.title} (${submission.score} ↑, ${submission.num_comments} comments)`);
-
-    // Fetch all comments (expanding "load more" links)
-    // Note: This may make additional API calls for "more comments" objects
-    await submission.expandReplies({ limit: Infinity, depth: Infinity });
-
-    // Estimate additional API calls for comment expansion
-    // Reddit returns ~100 comments per request, so estimate calls needed
-    const estimatedCommentCalls = Math.ceil(submission.num_comments / 100);
-    apiCalls += estimatedCommentCalls;
-
-    // Flatten comment tree and extract data with full context
-    const allComments = submission.comments;
-    const commentsList: RedditPost['comments'] = [];
-
-    function extractComments(comments: any[], depth: number = 0) {
-      for (const comment of comments) {
-        if (!comment.body || comment.body === '[deleted]' || comment.body === '[removed]') {
-          continue;
-        }
-
-        // Extract parent ID from parent_id field
-        // Format is "t1_xxxxx" for comments or "t3_xxxxx" for posts
-        let parentId: string | null = null;
-        if (comment.parent_id) {
-          const match = comment.parent_id.match(/t[13]_(.+)/);
-          if (match) {
-            // If parent is t3_ (post), this is top-level, so parentId = null
-            // If parent is t1_ (comment), extract the comment ID
-            if (comment.parent_id.startsWith('t1_')) {
-              parentId = match[1];
-            }
-          }
-        }
-
-        commentsList.push({
-          id: comment.id,
-          parentId: parentId,
-          postId: submission.id,
-          depth: depth,
-          text: comment.body,
-          score: comment.score,
-          author: comment.author?.name || '[deleted]',
-          created: comment.created_utc,
-        });
-
-        // Recursively extract replies (increase depth)
-        if (comment.replies && comment.replies.length > 0) {
-          extractComments(comment.replies, depth + 1);
-        }
+  // Actual requests made for this post, counted by the client
+  const requestsBefore = postRequestCount(postId);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const post = await fetchPost(postId);
+      return { post, apiCalls: postRequestCount(postId) - requestsBefore, failure: null };
+    } catch (error: any) {
+      const kind = classifyRedditError(error);
+
+      if (kind === 'transient' && attempt < MAX_ATTEMPTS) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        console.error(`  ⟳ ${title}: ${error.message} (retry ${attempt}/${MAX_ATTEMPTS - 1} in ${delay / 1000}s)`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
       }
+
+      console.error(`  ✗ ${title}: ${error.message} (${kind})`);
+      return {
+        post: null,
+        apiCalls: postRequestCount(postId) - requestsBefore,
+        failure: {
+          url,
+          title,
+          kind,
+          status: error?.statusCode ?? null,
+          message: String(error?.message || error),
+          attempts: attempt,
+          failedAt: Date.now(),
+        },
+      };
     }
+  }
+}
+
+/**
+ * Metadata fields refreshed (and backfilled on older scrapes) by --refresh
+ */
+function commentMetadata(c: RedditComment): Partial<RedditComment> {
+  const { edited, isSubmitter, distinguished, authorFlair, controversiality, awards, stickied } = c;
+  return { edited, isSubmitter, distinguished, authorFlair, controversiality, awards, stickied };
+}
 
-    extractComments(allComments, 0);
-
-    const post = {
-      postId: submission.id,
-      subreddit: submission.subreddit.display_name,
-      title: submission.title,
-      selftext: submission.selftext || '',
-      score: submission.score,
-      url: submission.url,
-      permalink: `https://reddit.com${submission.permalink}`,
-      author: submission.author?.name || '[deleted]',
-      created: submission.created_utc,
-      numComments: submission.num_comments,
-      comments: commentsList, // All comments, no artificial limit
-    };
-
-    return [post, apiCalls];
-  } catch (error: any) {
-    console.error(`  ✗ Error fetching ${url}: ${error.message}`);
-    return [null, 1]; // Still made at least 1 API call before error
+/**
+ * Merge a re-fetched post into the stored one: update the post and comment
+ * scores and metadata, append comments that weren't there before. Comments
+ * deleted since keep their stored text, since they may already have been analyzed.
+ */
+function mergeRefreshed(stored: RedditPost, fresh: RedditPost): { post: RedditPost; newComments: number } {
+  const freshById = new Map(fresh.comments.map(c => [c.id, c]));
+  const known = new Set(stored.comments.map(c => c.id));
+
+  const comments = stored.comments.map(c => {
+    const latest = freshById.get(c.id);
+    return latest ? { ...c, score: latest.score, ...commentMetadata(latest) } : c;
+  });
+  const added = fresh.comments.filter(c => !known.has(c.id));
+
+  return {
+    post: {
+      ...stored,
+      score: fresh.score,
+      numComments: fresh.numComments,
+      upvoteRatio: fresh.upvoteRatio,
+      linkFlair: fresh.linkFlair,
+      stickied: fresh.stickied,
+      comments: [...comments, ...added],
+    },
+    newComments: added.length,
+  };
+}
+
+/**
+ * Refresh mode: re-fetch recent Reddit posts, append new comments and
+ * snapshot every score
+ */
+async function refreshPosts() {
+  console.log(`🔄 Refreshing Reddit posts younger than ${REFRESH_MAX_AGE_DAYS} days (${STUDY.title})...\n`);
+
+  if (!STORAGE.has('posts')) {
+    console.error(`❌ ${STORAGE.location('posts')} not found`);
+    console.error('   Run "npm run scrape" first');
+    process.exit(1);
+  }
+
+  const lineage = startStage(STUDY, STORAGE, 'scrape', ['posts', SNAPSHOTS_FILE], {
+    mode: 'refresh',
+    maxAgeDays: REFRESH_MAX_AGE_DAYS,
+    backend: redditBackend(),
+    cassette: cassetteMode(),
+  });
+
+  const startTime = Date.now();
+  // Replays pick the same posts every time (see cassetteNow)
+  const cutoff = cassetteNow(REDDIT_CASSETTE) / 1000 - REFRESH_MAX_AGE_DAYS * 86400;
+
+  // Only the posts to refresh are kept in memory
+  const targets: RedditPost[] = [];
+  let scrapedCount = 0;
+  for (const post of STORAGE.iteratePosts('posts')) {
+    scrapedCount++;
+    if (extractRedditPostId(post.permalink) && post.created >= cutoff) {
+      targets.push(post);
+    }
   }
+
+  console.log(`Found ${targets.length} of ${scrapedCount} scraped posts to refresh\n`);
+
+  // Written back in one go at the end; rewriting the dataset per post is quadratic
+  const refreshedPosts: RedditPost[] = [];
+  let errors = 0;
+  let totalApiCalls = 0;
+  let totalNewComments = 0;
+
+  await runPool(
+    targets,
+    CONCURRENCY,
+    post => scrapePost(post.permalink, post.title),
+    ({ post: fresh, apiCalls }, stored) => {
+      totalApiCalls += apiCalls;
+
+      if (fresh) {
+        const { post, newComments } = mergeRefreshed(stored, fresh);
+        refreshedPosts.push(post);
+        appendSnapshots(STUDY, fresh);
+
+        console.log(`  ↻ ${stored.title}: ${stored.score} → ${fresh.score} ↑, +${newComments} new comments`);
+        totalNewComments += newComments;
+      } else {
+        errors++;
+      }
+    }
+  );
+
+  STORAGE.replacePosts('posts', refreshedPosts);
+
+  lineage.finish(['posts', SNAPSHOTS_FILE]);
+
+  const totalTime = Math.round((Date.now() - startTime) / 1000);
+
+  console.log(`\n✓ Refresh complete!`);
+  console.log(`  Time: ${Math.floor(totalTime / 60)}m ${totalTime % 60}s`);
+  console.log(`  Refreshed: ${refreshedPosts.length} posts`);
+  console.log(`  Errors: ${errors} posts`);
+  console.log(`  New comments: ${totalNewComments}`);
+  console.log(`  Total API calls: ${totalApiCalls}`);
+  console.log(`  Data saved to: ${STORAGE.location('posts')}`);
+  console.log(`  Score snapshots: ${SNAPSHOTS_FILE}`);
 }
 
 async function main() {
-  console.log('📥 Starting Reddit scrape from discovered URLs...\n');
+  if (hasFlag('refresh')) {
+    return refreshPosts();
+  }
+
+  const retrying = hasFlag('retry-failed');
+
+  if (retrying) {
+    console.log(`🔁 Retrying failed Reddit scrapes (${STUDY.title})...\n`);
+  } else {
+    console.log(`📥 Starting Reddit scrape from discovered URLs (${STUDY.title})...\n`);
+  }
+
+  const lineage = startStage(STUDY, STORAGE, 'scrape', [retrying ? FAILURES_FILE : 'discovered', 'posts'], {
+    mode: retrying ? 'retry-failed' : 'discovered',
+    force: hasFlag('force'),
+    concurrency: CONCURRENCY,
+    backend: redditBackend(),
+    cassette: cassetteMode(),
+  });
 
   const startTime = Date.now();
 
-  // Load discovered URLs
-  const discoveredURLs = loadDiscoveredURLs();
+  // Load discovered URLs, or the dead-letter file when retrying
+  const failures = loadFailures(STUDY);
+  const sources: Array<Pick<DiscoveredURL, 'url' | 'title'>> = retrying ? failures : loadDiscoveredURLs();
 
-  if (discoveredURLs.length === 0) {
+  if (sources.length === 0) {
     console.log('No URLs to scrape. Exiting.');
     return;
   }
 
-  console.log(`Found ${discoveredURLs.length} discovered URLs\n`);
-
-  // Track which posts we've already scraped
-  const scrapedPostIds = new Set<string>();
-  if (existsSync(OUTPUT_FILE)) {
-    const lines = readFileSync(OUTPUT_FILE, 'utf-8').split('\n').filter(l => l.trim());
-    for (const line of lines) {
-      try {
-        const post = JSON.parse(line);
-        scrapedPostIds.add(post.postId);
-      } catch (e) {
-        // Skip malformed lines
-      }
-    }
-    console.log(`Skipping ${scrapedPostIds.size} already scraped posts\n`);
+  console.log(`Found ${sources.length} ${retrying ? 'failed' : 'discovered'} URLs\n`);
+
+  // Posts already scraped are looked up in storage as we go
+  const scrapedCount = STORAGE.countPosts('posts');
+  if (scrapedCount > 0) {
+    console.log(`Skipping ${scrapedCount} already scraped posts\n`);
   }
 
+  // Threads that failed permanently in an earlier run are left to --retry-failed
+  const failedBefore = new Map(failures.map(f => [postKey(f.url) || f.url, f]));
+
   let scraped = 0;
   let skipped = 0;
-  let errors = 0;
   let totalApiCalls = 0;
   let totalComments = 0;
+  const errors = new Map<FailureKind | 'invalid', number>();
+  const countError = (kind: FailureKind | 'invalid') => errors.set(kind, (errors.get(kind) || 0) + 1);
 
-  for (let i = 0; i < discoveredURLs.length; i++) {
-    const discovered = discoveredURLs[i];
-    const postId = extractPostId(discovered.url);
+  // Decide what to scrape up front, so progress and ETA count only real work
+  const targets: Array<Pick<DiscoveredURL, 'url' | 'title'>> = [];
+  for (const source of sources) {
+    const postId = extractRedditPostId(source.url);
 
     if (!postId) {
-      console.log(`⊗ Invalid URL: ${discovered.url}`);
-      errors++;
+      console.log(`⊗ Invalid URL: ${source.url}`);
+      countError('invalid');
       continue;
     }
 
-    if (scrapedPostIds.has(postId)) {
-      console.log(`↩ Already scraped: ${discovered.title}`);
+    if (STORAGE.hasPost('posts', postId)) {
+      console.log(`↩ Already scraped: ${source.title}`);
+      if (failedBefore.has(postKey(source.url) || source.url)) {
+        clearFailure(STUDY, source.url);
+      }
       skipped++;
       continue;
     }
 
-    const [post, apiCalls] = await scrapePost(discovered.url);
-    totalApiCalls += apiCalls;
+    if (!retrying) {
+      if (prescreenRejected(source as DiscoveredURL) && !hasFlag('force')) {
+        console.log(`⊘ Rejected by pre-screen: ${source.title}`);
+        skipped++;
+        continue;
+      }
+
+      const failure = failedBefore.get(postKey(source.url) || source.url);
+      if (failure && isPermanent(failure.kind)) {
+        console.log(`✗ Failed before (${failure.kind}): ${source.title}`);
+        skipped++;
+        continue;
+      }
+    }
 
-    if (post) {
-      // Append to JSONL file
-      writeFileSync(OUTPUT_FILE, JSON.stringify(post) + '\n', { flag: 'a' });
-      scrapedPostIds.add(post.postId);
-      totalComments += post.comments.length;
-      scraped++;
+    targets.push(source);
+  }
+
+  console.log(`\nScraping ${targets.length} posts, ${CONCURRENCY} at a time\n`);
+  const scrapeStart = Date.now();
+  let completed = 0;
+
+  // Posts are fetched concurrently but appended in discovery order, one at a time
+  await runPool(
+    targets,
+    CONCURRENCY,
+    target => scrapePost(target.url, target.title),
+    ({ post, apiCalls, failure }, target) => {
+      totalApiCalls += apiCalls;
+      completed++;
+
+      if (post) {
+        // Append to JSONL file
+        STORAGE.appendPost('posts', post);
+        appendSnapshots(STUDY, post);
+        clearFailure(STUDY, target.url);
+        totalComments += post.comments.length;
+        scraped++;
+      } else if (failure) {
+        // Dead-letter it, keeping the attempt count across runs
+        const previous = failedBefore.get(postKey(target.url) || target.url);
+        recordFailure(STUDY, { ...failure, attempts: failure.attempts + (previous?.attempts || 0) });
+        countError(failure.kind);
+      } else {
+        countError('invalid');
+      }
 
       // Show progress every 10 posts
-      if (scraped % 10 === 0) {
-        const elapsed = (Date.now() - startTime) / 1000;
-        const avgTimePerPost = elapsed / scraped;
-        const remaining = discoveredURLs.length - i - 1;
+      if (completed % 10 === 0 && completed < targets.length) {
+        // Wall-clock time per completed post already reflects the parallelism
+        const elapsed = (Date.now() - scrapeStart) / 1000;
+        const avgTimePerPost = elapsed / completed;
+        const remaining = targets.length - completed;
         const etaSeconds = Math.round(avgTimePerPost * remaining);
         const etaMin = Math.floor(etaSeconds / 60);
         const etaSec = etaSeconds % 60;
 
-        console.log(`\n  Progress: ${scraped}/${discoveredURLs.length - scrapedPostIds.size} scraped`);
-        console.log(`  API calls: ${totalApiCalls} (~${(totalApiCalls / scraped).toFixed(1)} per post)`);
-        console.log(`  Comments: ${totalComments} (~${(totalComments / scraped).toFixed(0)} per post)`);
+        console.log(`\n  Progress: ${completed}/${targets.length} (${scraped} scraped)`);
+        console.log(`  API calls: ${totalApiCalls} (~${(totalApiCalls / completed).toFixed(1)} per post)`);
+        console.log(`  Comments: ${totalComments} (~${scraped > 0 ? (totalComments / scraped).toFixed(0) : 0} per post)`);
         console.log(`  ETA: ${etaMin}m ${etaSec}s\n`);
       }
-    } else {
-      skipped++;
     }
+  );
 
-    // Rate limiting
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
+  lineage.finish(['posts', SNAPSHOTS_FILE, FAILURES_FILE]);
 
   const totalTime = Math.round((Date.now() - startTime) / 1000);
   const minutes = Math.floor(totalTime / 60);
   const seconds = totalTime % 60;
 
+  const errorCount = [...errors.values()].reduce((sum, n) => sum + n, 0);
+  const errorKinds = [...errors].map(([kind, n]) => `${n} ${kind}`).join(', ');
+
   console.log(`\n✓ Scraping complete!`);
   console.log(`  Time: ${minutes}m ${seconds}s`);
   console.log(`  Scraped: ${scraped} posts`);
   console.log(`  Skipped: ${skipped} posts`);
-  console.log(`  Errors: ${errors} posts`);
+  console.log(`  Errors: ${errorCount} posts${errorKinds ? ` (${errorKinds})` : ''}`);
   console.log(`  Total API calls: ${totalApiCalls} (avg ${scraped > 0 ? (totalApiCalls / scraped).toFixed(1) : 0} per post)`);
   console.log(`  Total comments: ${totalComments} (avg ${scraped > 0 ? (totalComments / scraped).toFixed(0) : 0} per post)`);
-  console.log(`  Data saved to: ${OUTPUT_FILE}`);
-  console.log(`\n📊 Quota estimate: ${totalApiCalls}/60 per minute (${Math.ceil(totalApiCalls / 60)} minutes minimum runtime)`);
+  console.log(`  Data saved to: ${STORAGE.location('posts')}`);
+  const stillFailed = loadFailures(STUDY).length;
+  if (stillFailed > 0) {
+    console.log(`  Failed threads: ${stillFailed} in ${FAILURES_FILE} (replay with --retry-failed)`);
+  }
+  console.log(`\n📊 Reddit rate limit: ${describeRateLimit()}`);
 }
 
 main().catch(console.error);
@@ -0,0 +1,122 @@
+import { existsSync } from 'fs';
+import { loadStudy } from './study';
+import { openStorage } from './storage';
+import { getFlag } from './args';
+import { loadLineage, describeArtifact, LineageArtifact, LineageEntry } from './lineage';
+
+/**
+ * Print the chain of stage runs behind an analysis file, from the lineage
+ * manifest (see lineage.ts): which analyze runs wrote it, which filter-clean
+ * built their input, which scrapes and discovery runs fed that, and so on.
+ *
+ *   npm run lineage -- --study claude-code-vs-codex
+ *   npm run lineage -- --file dashboard/public/sentiment_analysis.jsonl
+ *
+ * Without --file, the study's analysis table is traced.
+ */
+
+const STUDY = loadStudy();
+const STORAGE = openStorage(STUDY);
+const ENTRIES = loadLineage(STUDY);
+
+const INDENT = '    ';
+
+function shortHash(sha256: string | null): string {
+  return sha256 ? sha256.slice(0, 12) : '(none)';
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * The latest run before `before` that wrote this content. Runs that left it
+ * unchanged (e.g. a repeated filter-clean) are passed over for the one that
+ * actually produced it, when there is one.
+ */
+function findProducer(sha256: string, before: number): number {
+  let fallback = -1;
+  for (let i = before - 1; i >= 0; i--) {
+    const entry = ENTRIES[i];
+    const output = entry.outputs.find(o => o.sha256 === sha256);
+    if (!output) continue;
+
+    const unchanged = entry.inputs.some(input => input.name === output.name && input.sha256 === sha256);
+    if (!unchanged) {
+      return i;
+    }
+    if (fallback === -1) {
+      fallback = i;
+    }
+  }
+  return fallback;
+}
+
+function printArtifact(artifact: LineageArtifact, depth: number, before: number, printed: Set<number>) {
+  const pad = INDENT.repeat(depth);
+  console.log(`${pad}← ${artifact.name} ${shortHash(artifact.sha256)} (${artifact.records} records)`);
+
+  if (!artifact.sha256) {
+    return;
+  }
+
+  const producer = findProducer(artifact.sha256, before);
+  if (producer === -1) {
+    console.log(`${pad}${INDENT}? no recorded run produced it (older than the manifest, or changed by hand)`);
+    return;
+  }
+  printEntry(producer, depth + 1, printed);
+}
+
+function printEntry(index: number, depth: number, printed: Set<number>) {
+  const entry: LineageEntry = ENTRIES[index];
+  const pad = INDENT.repeat(depth);
+  const commit = entry.commit ? `, commit ${entry.commit}` : '';
+
+  if (printed.has(index)) {
+    console.log(`${pad}${entry.stage} @ ${formatTime(entry.startedAt)} (see above)`);
+    return;
+  }
+  printed.add(index);
+
+  console.log(`${pad}${entry.stage} @ ${formatTime(entry.startedAt)} (${Math.round((entry.finishedAt - entry.startedAt) / 1000)}s${commit})`);
+  if (entry.args.length > 0) {
+    console.log(`${pad}  args: ${entry.args.join(' ')}`);
+  }
+  if (Object.keys(entry.config).length > 0) {
+    console.log(`${pad}  config: ${JSON.stringify(entry.config)}`);
+  }
+
+  for (const input of entry.inputs) {
+    printArtifact(input, depth, index, printed);
+  }
+}
+
+function main() {
+  const file = getFlag('file');
+  if (file && !existsSync(file)) {
+    console.error(`❌ ${file} not found`);
+    process.exit(1);
+  }
+
+  const target = describeArtifact(STORAGE, file || 'analyses');
+  if (!target.sha256) {
+    console.error(`❌ ${target.location} not found`);
+    process.exit(1);
+  }
+
+  console.log(`🧬 Lineage of ${target.location}`);
+  console.log(`   sha256 ${target.sha256}, ${target.records} records`);
+  console.log(`   Manifest: ${ENTRIES.length} recorded runs of ${STUDY.title}\n`);
+
+  const producer = findProducer(target.sha256, ENTRIES.length);
+  if (producer === -1) {
+    console.log('⚠️  No recorded run wrote this exact content.');
+    console.log('   It predates the lineage manifest, was edited by hand, or belongs to another study.');
+    return;
+  }
+
+  printEntry(producer, 0, new Set());
+}
+
+main();
@@ -0,0 +1,65 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { Study, studyFile } from './study';
+import { RedditPost } from './types';
+
+/**
+ * Score snapshots: every scrape and refresh appends the current score of the
+ * post and each of its comments to <dataDir>/score_snapshots.jsonl, so
+ * upvote growth can be reported over time and later stages can use the
+ * latest score instead of the one frozen at scrape time.
+ */
+
+export interface ScoreSnapshot {
+  postId: string;
+  commentId: string | null;   // null = the post itself
+  score: number;
+  capturedAt: number;         // Date.now() of the scrape/refresh
+}
+
+function snapshotsFile(study: Study): string {
+  return studyFile(study, 'score_snapshots.jsonl');
+}
+
+/**
+ * Record the current score of a post and all of its comments
+ */
+export function appendSnapshots(study: Study, post: RedditPost, capturedAt: number = Date.now()) {
+  const snapshots: ScoreSnapshot[] = [
+    { postId: post.postId, commentId: null, score: post.score, capturedAt },
+    ...post.comments.map(c => ({ postId: post.postId, commentId: c.id, score: c.score, capturedAt })),
+  ];
+
+  writeFileSync(snapshotsFile(study), snapshots.map(s => JSON.stringify(s) + '\n').join(''), { flag: 'a' });
+}
+
+/**
+ * Score history per comment ID, oldest first, as [capturedAt, score] pairs
+ */
+export function loadScoreHistory(study: Study): Map<string, Array<[number, number]>> {
+  const history = new Map<string, Array<[number, number]>>();
+  const file = snapshotsFile(study);
+
+  if (!existsSync(file)) {
+    return history;
+  }
+
+  for (const line of readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const snapshot: ScoreSnapshot = JSON.parse(line);
+      if (!snapshot.commentId) continue;
+
+      const points = history.get(snapshot.commentId) || [];
+      points.push([snapshot.capturedAt, snapshot.score]);
+      history.set(snapshot.commentId, points);
+    } catch (e) {
+      // Skip malformed lines
+    }
+  }
+
+  for (const points of history.values()) {
+    points.sort((a, b) => a[0] - b[0]);
+  }
+
+  return history;
+}
@@ -0,0 +1,431 @@
+import Database from 'better-sqlite3';
+import { writeFileSync, existsSync, renameSync, mkdirSync, openSync, readSync, closeSync } from 'fs';
+import { Study, studyFile } from './study';
+import { DiscoveredURL, RedditPost, RunLog, SentimentResult } from './types';
+
+/**
+ * Storage for everything the pipeline stages hand to each other: discovered
+ * URLs, scraped posts (raw and clean) with their comments, analyses and runs.
+ *
+ *   jsonl    one JSONL file per table in the study's data directory (default)
+ *   sqlite   <dataDir>/pipeline.db, for datasets too big to re-read on every run
+ *
+ * The backend is set per study ("storage" in studies/<id>.json), or with
+ * STORAGE / --storage. `npm run storage:import` and `storage:export` copy a
+ * study between the two, so the JSONL files stay the format that is committed
+ * and published to the dashboard.
+ */
+
+export type StorageKind = 'jsonl' | 'sqlite';
+
+// Scraped posts as collected (posts) and after filter-clean (clean)
+export type Dataset = 'posts' | 'clean';
+
+export type StorageTable = 'discovered' | Dataset | 'analyses' | 'runs';
+
+export interface Storage {
+  kind: StorageKind;
+
+  /** Where a table lives, for log messages */
+  location(table: StorageTable): string;
+
+  /** True once anything was written to the table */
+  has(table: StorageTable): boolean;
+
+  /** Every discovered record, duplicates included, in discovery order */
+  readDiscovered(): DiscoveredURL[];
+  appendDiscovered(record: DiscoveredURL): void;
+  writeDiscovered(records: DiscoveredURL[]): void;
+
+  /** Posts one at a time in dataset order, without loading the whole dataset */
+  iteratePosts(dataset: Dataset): Iterable<RedditPost>;
+  loadPosts(dataset: Dataset): RedditPost[];
+  countPosts(dataset: Dataset): number;
+  hasPost(dataset: Dataset, postId: string): boolean;
+  appendPost(dataset: Dataset, post: RedditPost): void;
+  /** Replace stored posts (matched on postId) with updated copies, in one write */
+  replacePosts(dataset: Dataset, posts: RedditPost[]): void;
+  writePosts(dataset: Dataset, posts: RedditPost[]): void;
+
+  loadAnalyses(): SentimentResult[];
+  /** True once the comment has an analysis */
+  isAnalyzed(commentId: string): boolean;
+  appendAnalysis(result: SentimentResult): void;
+  writeAnalyses(results: SentimentResult[]): void;
+
+  /** Runs of this study */
+  loadRuns(): RunLog[];
+  appendRun(run: RunLog): void;
+  writeRuns(runs: RunLog[]): void;
+}
+
+const DATASET_FILES: Record<Dataset, string> = {
+  posts: 'reddit_data.jsonl',
+  clean: 'reddit_data_clean.jsonl',
+};
+
+const RUN_LOG_FILE = 'logs/runs.jsonl';
+
+const DATABASE_FILE = 'pipeline.db';
+
+// Read size for streaming JSONL files, and posts per page of a SQLite read
+const READ_CHUNK_BYTES = 1 << 20;
+const POST_PAGE_SIZE = 100;
+
+/**
+ * Open the study's configured storage
+ */
+export function openStorage(study: Study, kind: StorageKind = study.storage): Storage {
+  return kind === 'sqlite' ? sqliteStorage(study) : jsonlStorage(study);
+}
+
+/**
+ * The record on a JSONL line, if any (blank and malformed lines are skipped)
+ */
+function* parseLine<T>(line: string): Generator<T> {
+  if (!line.trim()) return;
+  try {
+    yield JSON.parse(line);
+  } catch (e) {
+    // Skip malformed lines
+  }
+}
+
+/**
+ * Records of a JSONL file, parsed a line at a time as the file is read
+ */
+export function* iterateJsonl<T>(file: string): Generator<T> {
+  if (!existsSync(file)) {
+    return;
+  }
+
+  const fd = openSync(file, 'r');
+  const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+  // Lines are split on bytes, so characters across chunk edges stay whole
+  let pending = Buffer.alloc(0);
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      pending = Buffer.concat([pending, buffer.subarray(0, bytesRead)]);
+
+      let start = 0;
+      let newline: number;
+      while ((newline = pending.indexOf('\n', start)) !== -1) {
+        yield* parseLine<T>(pending.toString('utf-8', start, newline));
+        start = newline + 1;
+      }
+      pending = pending.subarray(start);
+    }
+    yield* parseLine<T>(pending.toString('utf-8'));
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function readJsonl<T>(file: string): T[] {
+  return [...iterateJsonl<T>(file)];
+}
+
+function appendJsonl(file: string, record: unknown) {
+  writeFileSync(file, JSON.stringify(record) + '\n', { flag: 'a' });
+}
+
+/**
+ * Rewrite a whole file (temp file + rename, so an interrupted run can't truncate it)
+ */
+function writeJsonl(file: string, records: unknown[]) {
+  const tmpFile = `${file}.tmp`;
+  writeFileSync(tmpFile, records.map(record => JSON.stringify(record) + '\n').join(''));
+  renameSync(tmpFile, file);
+}
+
+/**
+ * The original layout: a JSONL file per table, runs shared by all studies in logs/
+ */
+function jsonlStorage(study: Study): Storage {
+  const files: Record<StorageTable, string> = {
+    discovered: studyFile(study, 'discovered_urls.jsonl'),
+    posts: studyFile(study, DATASET_FILES.posts),
+    clean: studyFile(study, DATASET_FILES.clean),
+    analyses: studyFile(study, 'sentiment_analysis.jsonl'),
+    runs: RUN_LOG_FILE,
+  };
+
+  const allRuns = () => readJsonl<RunLog>(files.runs);
+
+  // The files can't be queried, so lookups use IDs read once per run and
+  // kept up to date by this process's own writes
+  const postIds: Partial<Record<Dataset, Set<string>>> = {};
+  let analyzedIds: Set<string> | null = null;
+
+  const knownPostIds = (dataset: Dataset) => {
+    if (!postIds[dataset]) {
+      postIds[dataset] = new Set();
+      for (const post of iterateJsonl<RedditPost>(files[dataset])) {
+        postIds[dataset]!.add(post.postId);
+      }
+    }
+    return postIds[dataset]!;
+  };
+
+  const knownAnalyzedIds = () => {
+    if (!analyzedIds) {
+      analyzedIds = new Set();
+      for (const result of iterateJsonl<SentimentResult>(files.analyses)) {
+        analyzedIds.add(result.commentId);
+      }
+    }
+    return analyzedIds;
+  };
+
+  const ensureLogsDir = () => {
+    if (!existsSync('logs')) {
+      mkdirSync('logs', { recursive: true });
+    }
+  };
+
+  return {
+    kind: 'jsonl',
+    location: table => files[table],
+    has: table => existsSync(files[table]),
+
+    readDiscovered: () => readJsonl<DiscoveredURL>(files.discovered),
+    appendDiscovered: record => appendJsonl(files.discovered, record),
+    writeDiscovered: records => writeJsonl(files.discovered, records),
+
+    iteratePosts: dataset => iterateJsonl<RedditPost>(files[dataset]),
+    loadPosts: dataset => readJsonl<RedditPost>(files[dataset]),
+    countPosts: dataset => knownPostIds(dataset).size,
+    hasPost: (dataset, postId) => knownPostIds(dataset).has(postId),
+    appendPost: (dataset, post) => {
+      appendJsonl(files[dataset], post);
+      postIds[dataset]?.add(post.postId);
+    },
+    replacePosts: (dataset, posts) => {
+      const updated = new Map(posts.map(post => [post.postId, post]));
+      writeJsonl(files[dataset], readJsonl<RedditPost>(files[dataset]).map(stored => updated.get(stored.postId) || stored));
+    },
+    writePosts: (dataset, posts) => {
+      writeJsonl(files[dataset], posts);
+      delete postIds[dataset];
+    },
+
+    loadAnalyses: () => readJsonl<SentimentResult>(files.analyses),
+    isAnalyzed: commentId => knownAnalyzedIds().has(commentId),
+    appendAnalysis: result => {
+      appendJsonl(files.analyses, result);
+      analyzedIds?.add(result.commentId);
+    },
+    writeAnalyses: results => {
+      writeJsonl(files.analyses, results);
+      analyzedIds = null;
+    },
+
+    loadRuns: () => allRuns().filter(run => run.study === study.id),
+    appendRun: run => {
+      ensureLogsDir();
+      appendJsonl(files.runs, run);
+    },
+    // Other studies' runs share the file and are kept
+    writeRuns: runs => {
+      ensureLogsDir();
+      writeJsonl(files.runs, [...allRuns().filter(run => run.study !== study.id), ...runs]);
+    },
+  };
+}
+
+// Each row keeps the full record as JSON (`record`) next to the columns
+// that are queried, so records round-trip through SQLite unchanged
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS discovered_urls (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,
+    query TEXT NOT NULL,
+    discovered_at INTEGER NOT NULL,
+    record TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS posts (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    dataset TEXT NOT NULL,
+    post_id TEXT NOT NULL,
+    subreddit TEXT NOT NULL,
+    created INTEGER NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS posts_by_id ON posts (dataset, post_id);
+
+  CREATE TABLE IF NOT EXISTS comments (
+    post_seq INTEGER NOT NULL REFERENCES posts (seq) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    comment_id TEXT NOT NULL,
+    parent_id TEXT,
+    record TEXT NOT NULL,
+    PRIMARY KEY (post_seq, position)
+  );
+  CREATE INDEX IF NOT EXISTS comments_by_id ON comments (comment_id);
+
+  CREATE TABLE IF NOT EXISTS analyses (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    comment_id TEXT NOT NULL,
+    post_id TEXT NOT NULL,
+    model TEXT NOT NULL,
+    analyzed_at INTEGER NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS analyses_by_comment ON analyses (comment_id);
+
+  CREATE TABLE IF NOT EXISTS runs (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    study TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    record TEXT NOT NULL
+  );
+`;
+
+/**
+ * One SQLite database per study: <dataDir>/pipeline.db
+ */
+function sqliteStorage(study: Study): Storage {
+  const file = studyFile(study, DATABASE_FILE);
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const tables: Record<StorageTable, string> = {
+    discovered: 'discovered_urls',
+    posts: 'posts',
+    clean: 'posts, clean dataset',
+    analyses: 'analyses',
+    runs: 'runs',
+  };
+
+  const insertDiscovered = db.prepare('INSERT INTO discovered_urls (url, query, discovered_at, record) VALUES (?, ?, ?, ?)');
+  const insertPost = db.prepare('INSERT INTO posts (dataset, post_id, subreddit, created, record) VALUES (?, ?, ?, ?, ?)');
+  const insertComment = db.prepare('INSERT INTO comments (post_seq, position, comment_id, parent_id, record) VALUES (?, ?, ?, ?, ?)');
+  const insertAnalysis = db.prepare('INSERT INTO analyses (comment_id, post_id, model, analyzed_at, record) VALUES (?, ?, ?, ?, ?)');
+  const insertRun = db.prepare('INSERT INTO runs (study, timestamp, record) VALUES (?, ?, ?)');
+
+  const records = <T>(sql: string, ...params: unknown[]): T[] =>
+    (db.prepare(sql).all(...params) as Array<{ record: string }>).map(row => JSON.parse(row.record));
+
+  const addDiscovered = (record: DiscoveredURL) =>
+    insertDiscovered.run(record.url, record.query, record.discoveredAt, JSON.stringify(record));
+
+  // The post row keeps an empty `comments` so the key order of the record survives
+  const addPost = (dataset: Dataset, post: RedditPost) => {
+    const { lastInsertRowid } = insertPost.run(
+      dataset, post.postId, post.subreddit, post.created, JSON.stringify({ ...post, comments: [] })
+    );
+    post.comments.forEach((comment, position) =>
+      insertComment.run(lastInsertRowid, position, comment.id, comment.parentId, JSON.stringify(comment))
+    );
+  };
+
+  /**
+   * Posts in pages of POST_PAGE_SIZE, each page read with its comments in
+   * two queries. No statement stays open between pages, so callers can write
+   * (e.g. append analyses) while iterating.
+   */
+  function* iteratePosts(dataset: Dataset): Generator<RedditPost> {
+    const selectPage = db.prepare('SELECT seq, record FROM posts WHERE dataset = ? AND seq > ? ORDER BY seq LIMIT ?');
+    let lastSeq = 0;
+
+    while (true) {
+      const page = selectPage.all(dataset, lastSeq, POST_PAGE_SIZE) as Array<{ seq: number; record: string }>;
+      if (page.length === 0) return;
+      lastSeq = page[page.length - 1].seq;
+
+      const comments = new Map<number, RedditPost['comments']>();
+      const rows = db.prepare(`
+        SELECT post_seq, record FROM comments WHERE post_seq BETWEEN ? AND ? ORDER BY post_seq, position
+      `).all(page[0].seq, lastSeq) as Array<{ post_seq: number; record: string }>;
+      for (const row of rows) {
+        const list = comments.get(row.post_seq) || [];
+        list.push(JSON.parse(row.record));
+        comments.set(row.post_seq, list);
+      }
+
+      for (const row of page) {
+        const post: RedditPost = JSON.parse(row.record);
+        post.comments = comments.get(row.seq) || [];
+        yield post;
+      }
+    }
+  }
+
+  const selectPost = db.prepare('SELECT 1 FROM posts WHERE dataset = ? AND post_id = ? LIMIT 1');
+  const selectAnalysis = db.prepare('SELECT 1 FROM analyses WHERE comment_id = ? LIMIT 1');
+
+  const addAnalysis = (result: SentimentResult) =>
+    insertAnalysis.run(result.commentId, result.postId, result.model, result.analyzedAt, JSON.stringify(result));
+
+  const addRun = (run: RunLog) => insertRun.run(run.study, run.timestamp, JSON.stringify(run));
+
+  return {
+    kind: 'sqlite',
+    location: table => `${file} (${tables[table]})`,
+    has: table => {
+      const row = table === 'posts' || table === 'clean'
+        ? db.prepare('SELECT 1 FROM posts WHERE dataset = ? LIMIT 1').get(table)
+        : db.prepare(`SELECT 1 FROM ${tables[table]} LIMIT 1`).get();
+      return row !== undefined;
+    },
+
+    readDiscovered: () => records('SELECT record FROM discovered_urls ORDER BY seq'),
+    appendDiscovered: record => {
+      addDiscovered(record);
+    },
+    writeDiscovered: db.transaction((list: DiscoveredURL[]) => {
+      db.prepare('DELETE FROM discovered_urls').run();
+      list.forEach(addDiscovered);
+    }),
+
+    iteratePosts,
+    loadPosts: dataset => [...iteratePosts(dataset)],
+    countPosts: dataset => (db.prepare('SELECT COUNT(*) AS count FROM posts WHERE dataset = ?').get(dataset) as { count: number }).count,
+    hasPost: (dataset, postId) => selectPost.get(dataset, postId) !== undefined,
+    appendPost: db.transaction(addPost),
+    // Same position in the dataset, so exports keep their order
+    replacePosts: db.transaction((dataset: Dataset, posts: RedditPost[]) => {
+      const selectSeqs = db.prepare('SELECT seq FROM posts WHERE dataset = ? AND post_id = ?');
+      const updatePost = db.prepare('UPDATE posts SET subreddit = ?, created = ?, record = ? WHERE seq = ?');
+      const deleteComments = db.prepare('DELETE FROM comments WHERE post_seq = ?');
+
+      for (const post of posts) {
+        for (const { seq } of selectSeqs.all(dataset, post.postId) as Array<{ seq: number }>) {
+          updatePost.run(post.subreddit, post.created, JSON.stringify({ ...post, comments: [] }), seq);
+          deleteComments.run(seq);
+          post.comments.forEach((comment, position) =>
+            insertComment.run(seq, position, comment.id, comment.parentId, JSON.stringify(comment))
+          );
+        }
+      }
+    }),
+    writePosts: db.transaction((dataset: Dataset, posts: RedditPost[]) => {
+      db.prepare('DELETE FROM posts WHERE dataset = ?').run(dataset);
+      posts.forEach(post => addPost(dataset, post));
+    }),
+
+    loadAnalyses: () => records('SELECT record FROM analyses ORDER BY seq'),
+    isAnalyzed: commentId => selectAnalysis.get(commentId) !== undefined,
+    appendAnalysis: result => {
+      addAnalysis(result);
+    },
+    writeAnalyses: db.transaction((results: SentimentResult[]) => {
+      db.prepare('DELETE FROM analyses').run();
+      results.forEach(addAnalysis);
+    }),
+
+    loadRuns: () => records('SELECT record FROM runs WHERE study = ? ORDER BY seq', study.id),
+    appendRun: run => {
+      addRun(run);
+    },
+    writeRuns: db.transaction((runs: RunLog[]) => {
+      db.prepare('DELETE FROM runs WHERE study = ?').run(study.id);
+      runs.forEach(addRun);
+    }),
+  };
+}
@@ -0,0 +1,167 @@
+import { readFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { getFlag } from './args';
+import { StorageKind } from './storage';
+
+/**
+ * Study definitions: which two tools are being compared, where to look for
+ * discussions, and where the pipeline keeps its data.
+ *
+ * Studies live in studies/<id>.json and are selected with `--study <id>`
+ * or the STUDY environment variable, e.g.:
+ *
+ *   npm run discover -- --study cursor-vs-windsurf
+ */
+
+const STUDIES_DIR = 'studies';
+const DEFAULT_STUDY = 'claude-code-vs-codex';
+
+export interface StudyTool {
+  id: string;          // snake_case, used in comparison categories ("claude_code_better")
+  name: string;        // display name used in prompts and logs
+  aliases: string[];   // lowercase phrases that count as a mention of the tool
+  exactAliases: string[];      // case-sensitive aliases, e.g. "CC"
+  negativePatterns: string[];  // regexes for look-alikes that are not the tool (see mentions.ts)
+}
+
+export interface StudyGitHubRepo {
+  repo: string;        // owner/name
+  tool: string;        // id of the tool this repo belongs to (counts as an implicit mention)
+}
+
+// Which scraped posts filter-clean keeps for analysis; unset rules keep everything
+export interface CleanRules {
+  sources: string[];           // discovery sources (DiscoveredURL.query), e.g. "reddit_api"
+  subreddits?: string[];       // post.subreddit ("hackernews" and "owner/repo" for other sources)
+  from?: string;               // ISO date, posts created on or after
+  to?: string;                 // ISO date, posts created before
+  minScore?: number;
+  minComments?: number;        // scraped comments, not counting deleted placeholders
+  excludeAuthors?: string[];   // usernames; matched against pseudonymized authors too
+}
+
+/**
+ * What the analyzer does with comments that aren't in English (see language.ts):
+ *
+ *   skip        leave them out of the analysis
+ *   native      analyze them as written, quotes stay in the original language
+ *   translate   analyze them as written, quotes are translated to English and
+ *               the original is kept next to them (the default)
+ */
+export type LanguagePolicy = 'skip' | 'native' | 'translate';
+
+const LANGUAGE_POLICIES: LanguagePolicy[] = ['skip', 'native', 'translate'];
+
+export interface Study {
+  id: string;
+  title: string;
+  tools: [StudyTool, StudyTool];
+  subreddits: string[];
+  monthsBack: number;
+  searchQueries: string[];       // Google CSE queries
+  hnQueries: string[];           // Hacker News (Algolia) queries, defaults to both tool names
+  githubRepos: StudyGitHubRepo[];  // issue trackers / discussion boards to search
+  dataDir: string;               // defaults to data/<id>, --data-dir overrides
+  publishToDashboard: boolean;   // copy analysis output to dashboard/public
+  storage: StorageKind;          // jsonl (default) or sqlite, see storage.ts
+  cleanRules: CleanRules;        // see filter-clean-dataset.ts
+  languagePolicy: LanguagePolicy;
+}
+
+/**
+ * Load the selected study definition and make sure its data directory exists
+ */
+export function loadStudy(): Study {
+  const id = getFlag('study') || process.env.STUDY || DEFAULT_STUDY;
+  const file = join(STUDIES_DIR, `${id}.json`);
+
+  if (!existsSync(file)) {
+    console.error(`❌ Study definition not found: ${file}`);
+    process.exit(1);
+  }
+
+  const raw = JSON.parse(readFileSync(file, 'utf-8'));
+
+  if (!Array.isArray(raw.tools) || raw.tools.length !== 2) {
+    console.error(`❌ ${file}: "tools" must list exactly two tools`);
+    process.exit(1);
+  }
+
+  const storage = getFlag('storage') || process.env.STORAGE || raw.storage || 'jsonl';
+  if (storage !== 'jsonl' && storage !== 'sqlite') {
+    console.error(`❌ Unknown storage "${storage}" (expected jsonl or sqlite)`);
+    process.exit(1);
+  }
+
+  const languagePolicy = getFlag('languages') || process.env.LANGUAGE_POLICY || raw.languagePolicy || 'translate';
+  if (!LANGUAGE_POLICIES.includes(languagePolicy)) {
+    console.error(`❌ Unknown language policy "${languagePolicy}" (expected ${LANGUAGE_POLICIES.join(', ')})`);
+    process.exit(1);
+  }
+
+  const study: Study = {
+    id: raw.id || id,
+    title: raw.title || raw.tools.map((t: StudyTool) => t.name).join(' vs '),
+    tools: raw.tools.map((t: StudyTool) => ({
+      id: t.id,
+      name: t.name,
+      aliases: (t.aliases || [t.name]).map(a => a.toLowerCase()),
+      exactAliases: t.exactAliases || [],
+      negativePatterns: t.negativePatterns || [],
+    })) as [StudyTool, StudyTool],
+    subreddits: raw.subreddits || [],
+    monthsBack: raw.monthsBack ?? 2.5,
+    searchQueries: raw.searchQueries || [],
+    hnQueries: raw.hnQueries || [raw.tools.map((t: StudyTool) => t.name).join(' ')],
+    githubRepos: raw.githubRepos || [],
+    dataDir: getFlag('data-dir') || raw.dataDir || join('data', id),
+    publishToDashboard: raw.publishToDashboard ?? false,
+    storage,
+    cleanRules: {
+      // Posts found through the sources' own APIs (no Google results) by default
+      sources: ['reddit_api', 'hn_algolia', 'github_api'],
+      ...raw.cleanRules,
+    },
+    languagePolicy,
+  };
+
+  if (!existsSync(study.dataDir)) {
+    mkdirSync(study.dataDir, { recursive: true });
+  }
+
+  return study;
+}
+
+/**
+ * Resolve a data file inside the study's data directory
+ */
+export function studyFile(study: Study, name: string): string {
+  return join(study.dataDir, name);
+}
+
+/**
+ * Field name holding a tool's sentiment in analysis output
+ * (claude_code -> claudeCodeSentiment)
+ */
+export function sentimentField(tool: StudyTool): `${string}Sentiment` {
+  const camel = tool.id.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+  return `${camel}Sentiment`;
+}
+
+/**
+ * All comparison categories the analyzer may assign for this study
+ */
+export function comparisonCategories(study: Study): string[] {
+  const [a, b] = study.tools;
+  return [
+    `${b.id}_better`,
+    `${a.id}_better`,
+    'equal',
+    'neither',
+    'off_topic',
+    `${a.id}_only_positive`,
+    `${a.id}_only_negative`,
+    `${b.id}_only_positive`,
+    `${b.id}_only_negative`,
+  ];
+}
@@ -0,0 +1,70 @@
+import { loadStudy } from './study';
+import { openStorage, Storage, StorageTable } from './storage';
+
+/**
+ * Copy a study between the JSONL files and its SQLite database:
+ *
+ *   npm run storage:import   JSONL files -> pipeline.db (replaces its contents)
+ *   npm run storage:export   pipeline.db -> JSONL files (e.g. to commit or publish)
+ *
+ * Records come out exactly as they went in, so import + export is a no-op.
+ */
+
+const STUDY = loadStudy();
+
+const TABLES: StorageTable[] = ['discovered', 'posts', 'clean', 'analyses', 'runs'];
+
+function copyTable(from: Storage, to: Storage, table: StorageTable): number {
+  switch (table) {
+    case 'discovered': {
+      const records = from.readDiscovered();
+      to.writeDiscovered(records);
+      return records.length;
+    }
+    case 'posts':
+    case 'clean': {
+      const posts = from.loadPosts(table);
+      to.writePosts(table, posts);
+      return posts.length;
+    }
+    case 'analyses': {
+      const results = from.loadAnalyses();
+      to.writeAnalyses(results);
+      return results.length;
+    }
+    case 'runs': {
+      const runs = from.loadRuns();
+      to.writeRuns(runs);
+      return runs.length;
+    }
+  }
+}
+
+function main() {
+  const direction = process.argv[2];
+  if (direction !== 'import' && direction !== 'export') {
+    console.error('❌ Usage: transfer-storage.ts import|export [--study <id>]');
+    process.exit(1);
+  }
+
+  const jsonl = openStorage(STUDY, 'jsonl');
+  const sqlite = openStorage(STUDY, 'sqlite');
+  const [from, to] = direction === 'import' ? [jsonl, sqlite] : [sqlite, jsonl];
+
+  console.log(`🗄️  ${direction === 'import' ? 'Importing' : 'Exporting'} ${STUDY.title} (${from.kind} → ${to.kind})\n`);
+
+  for (const table of TABLES) {
+    // Leave tables the source never had alone, rather than writing empty files
+    if (!from.has(table)) {
+      console.log(`  – ${table}: nothing to copy`);
+      continue;
+    }
+
+    const count = copyTable(from, to, table);
+    console.log(`  ✓ ${table}: ${count} records → ${to.location(table)}`);
+  }
+
+  console.log(`\n✓ ${direction === 'import' ? 'Import' : 'Export'} complete!`);
+}
+
+main();
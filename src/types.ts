@@ -0,0 +1,124 @@
+/**
+ * Record shapes shared by the pipeline stages. Every source (Reddit,
+ * Hacker News, ...) is mapped onto these so analyze.ts and the dashboard
+ * don't need to know where a thread came from.
+ */
+
+import { MentionSpan } from './mentions';
+
+// How a Reddit post was found: paging r/<sub>/new, or keyword search
+export type DiscoveryStrategy = 'listing' | 'search';
+
+export interface DiscoveredURL {
+  url: string;
+  title: string;
+  snippet: string;
+  discoveredAt: number;
+  query: string;         // search query, or a source tag like "reddit_api" / "hn_algolia"
+  queries?: string[];    // every query/source that found the post, once duplicates are merged
+  subreddit?: string;
+  score?: number;
+  created?: number;
+  strategies?: DiscoveryStrategy[];   // Reddit API discoveries only
+  prescreen?: PrescreenVerdict;       // set by prescreen.ts
+}
+
+// Pre-screen of a discovered thread's title + snippet by a small model
+export interface PrescreenVerdict {
+  comparison: boolean;   // true if the thread looks like a real comparison of the tools
+  confidence: number;    // 0-1, the model's confidence in the verdict
+  reason: string;
+  model: string;
+  screenedAt: number;
+}
+
+export interface RedditComment {
+  id: string;
+  parentId: string | null;  // null = top-level, otherwise parent comment ID
+  postId: string;            // which post this comment belongs to
+  depth: number;             // 0 = top-level, 1 = reply, 2 = reply to reply, etc.
+  text: string;
+  score: number;
+  author: string;
+  created: number;
+  deleted?: 'deleted' | 'removed';  // placeholder keeping the tree intact; text is empty
+
+  // Reddit metadata (missing on other sources and on posts scraped before it was captured)
+  edited?: number | null;           // when the comment was last edited, null = never
+  isSubmitter?: boolean;            // written by the post's author (OP)
+  distinguished?: string | null;    // 'moderator' / 'admin' when posted in that role
+  authorFlair?: string | null;
+  controversiality?: number;        // 1 when Reddit marks the comment controversial
+  awards?: number;                  // total awards received
+  stickied?: boolean;
+
+  doNotQuote?: boolean;             // author is on the do-not-quote list (see privacy.ts)
+  hygiene?: HygieneFlag[];          // set by filter-clean / `npm run hygiene`; flagged comments aren't analyzed
+  language?: string;                // ISO 639-1 code or "und", set by filter-clean (see language.ts)
+}
+
+// Why a comment was set aside by the hygiene stage (see hygiene.ts)
+export type HygieneFlag = 'bot' | 'mod_template' | 'referral' | 'near_duplicate';
+
+export interface RedditPost {
+  postId: string;
+  subreddit: string;
+  title: string;
+  selftext: string;
+  score: number;
+  url: string;
+  permalink: string;         // comment links are `${permalink}${comment.id}`
+  author: string;
+  created: number;
+  numComments: number;
+  comments: RedditComment[];
+
+  // Reddit metadata, like the comment fields above
+  upvoteRatio?: number;
+  linkFlair?: string | null;
+  stickied?: boolean;
+}
+
+export type Sentiment = 'positive' | 'negative' | 'neutral' | 'n/a';
+
+// One analyzed comment (sentiment_analysis.jsonl, read by the dashboard)
+export interface SentimentResult {
+  commentId: string;
+  postId: string;
+  subreddit: string;
+  permalink: string;
+  comparison: string;  // one of comparisonCategories(study), e.g. "claude_code_better"
+  [toolSentiment: `${string}Sentiment`]: Sentiment;  // e.g. claudeCodeSentiment, codexSentiment
+  reasoning: string;
+  themes: string[];
+  quoteWorthy: boolean;
+  quote?: string;                 // in English when the comment was translated
+  originalQuote?: string;         // the quote as written, for translated quotes
+  quoteMentions?: MentionSpan[];  // tool mentions in the quote, for dashboard highlighting
+  score: number;                  // latest known score
+  scoreHistory?: Array<[number, number]>;  // [capturedAt, score] snapshots, when refreshed
+  controversiality?: number;      // Reddit's flag, 1 = controversial
+  isSubmitter?: boolean;          // written by the thread's author (OP)
+  hygiene?: HygieneFlag[];        // the comment's hygiene flags, hidden on the dashboard by default
+  language?: string;              // the comment's language, see RedditComment.language
+  model: string;
+  analyzedAt: number;
+}
+
+// Metadata of one analyze run
+export interface RunLog {
+  timestamp: number;
+  study: string;
+  model: string;
+  totalCandidates: number;
+  alreadyAnalyzed: number;
+  analyzedThisRun: number;
+  rejected?: number;     // failed validation after all repair attempts
+  errors: number;
+  timeSeconds: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+  batchSize: number;
+  concurrency?: number;  // comments analyzed at once
+}
@@ -0,0 +1,62 @@
+import { extractHNId } from './hn';
+import { extractGitHubRef, githubPostId } from './github';
+
+/**
+ * Canonical post keys. The same thread turns up under many URLs (reddit.com,
+ * www/old/np subdomains, with or without the slug, trailing slash or query
+ * string, redd.it short links), so discovery and scraping dedupe on a key
+ * derived from the post id instead of the raw URL:
+ *
+ *   reddit:1nqvcr6   hn:45310001   github:openai/codex#4200
+ *
+ * The part after the source prefix is the `postId` the scrapers write.
+ */
+
+/**
+ * Extract the base36 post ID from any form of Reddit thread URL
+ */
+export function extractRedditPostId(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+
+  if (host === 'redd.it') {
+    const match = parsed.pathname.match(/^\/([a-z0-9]+)\/?$/i);
+    return match ? match[1].toLowerCase() : null;
+  }
+
+  if (host !== 'reddit.com' && !host.endsWith('.reddit.com')) {
+    return null;
+  }
+
+  const match = parsed.pathname.match(/\/comments\/([a-z0-9]+)/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Canonical key for a thread URL, or null if it isn't a thread we can scrape
+ */
+export function postKey(url: string): string | null {
+  const redditId = extractRedditPostId(url);
+  if (redditId) return `reddit:${redditId}`;
+
+  const github = extractGitHubRef(url);
+  if (github) return `github:${githubPostId(github)}`;
+
+  const hnId = extractHNId(url);
+  if (hnId) return `hn:${hnId}`;
+
+  return null;
+}
+
+/**
+ * Post ID as written by the source's scraper (RedditPost.postId)
+ */
+export function keyPostId(key: string): string {
+  return key.slice(key.indexOf(':') + 1);
+}